@@ -0,0 +1,121 @@
+import { AC_MODES, ACMode, ACState, FAN_LEVELS, FanLevel, SWING_MODES, SwingMode, TemperatureUnit } from './types.js';
+
+// Configured limits are always in Celsius
+export interface TemperatureLimits {
+  minTemp: number;
+  maxTemp: number;
+}
+
+export function convertTemperature(value: number, from: TemperatureUnit, to: TemperatureUnit): number {
+  if (from === to) return value;
+  return to === 'F' ? value * 9 / 5 + 32 : (value - 32) * 5 / 9;
+}
+
+// Whole-degree limits in the given unit, rounded inward so they stay within the Celsius range
+export function limitsFor(limits: TemperatureLimits, unit: TemperatureUnit): TemperatureLimits {
+  return {
+    minTemp: Math.ceil(convertTemperature(limits.minTemp, 'C', unit) - 1e-9),
+    maxTemp: Math.floor(convertTemperature(limits.maxTemp, 'C', unit) + 1e-9),
+  };
+}
+
+/**
+ * Rewrites a partial state whose temperatureUnit differs from the device's
+ * unit so the target is sent in the device's unit. The device's own unit
+ * setting is never changed.
+ */
+export function toDeviceUnit(state: Partial<ACState>, deviceUnit: TemperatureUnit): Partial<ACState> {
+  const { temperatureUnit, ...rest } = state;
+  if (!temperatureUnit || rest.targetTemperature === undefined) {
+    return rest;
+  }
+  return {
+    ...rest,
+    targetTemperature: Math.round(convertTemperature(rest.targetTemperature, temperatureUnit, deviceUnit)),
+  };
+}
+
+/**
+ * Checks a user-supplied partial AC state (from a config or schedule file).
+ * Problems are appended to errors, prefixed with label.
+ */
+export function validatePartialState(
+  raw: unknown,
+  label: string,
+  limits: TemperatureLimits,
+  errors: string[]
+): Partial<ACState> {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    errors.push(`${label} must be an object`);
+    return {};
+  }
+
+  const { on, mode, fanLevel, targetTemperature, temperatureUnit, swing, ...rest } = raw as Record<string, unknown>;
+  const state: Partial<ACState> = {};
+
+  // temperatureUnit only says which unit targetTemperature is written in (default Celsius)
+  let unit: TemperatureUnit = 'C';
+  if (temperatureUnit !== undefined) {
+    if (temperatureUnit !== 'C' && temperatureUnit !== 'F') {
+      errors.push(`${label}.temperatureUnit must be C or F`);
+    } else {
+      unit = temperatureUnit;
+      state.temperatureUnit = temperatureUnit;
+    }
+  }
+
+  if (on !== undefined) {
+    if (typeof on !== 'boolean') errors.push(`${label}.on must be true or false`);
+    else state.on = on;
+  }
+  if (mode !== undefined) {
+    if (!AC_MODES.includes(mode as ACMode)) errors.push(`${label}.mode must be one of: ${AC_MODES.join(', ')}`);
+    else state.mode = mode as ACMode;
+  }
+  if (fanLevel !== undefined) {
+    if (!FAN_LEVELS.includes(fanLevel as FanLevel)) errors.push(`${label}.fanLevel must be one of: ${FAN_LEVELS.join(', ')}`);
+    else state.fanLevel = fanLevel as FanLevel;
+  }
+  if (swing !== undefined) {
+    if (!SWING_MODES.includes(swing as SwingMode)) errors.push(`${label}.swing must be one of: ${SWING_MODES.join(', ')}`);
+    else state.swing = swing as SwingMode;
+  }
+  if (targetTemperature !== undefined) {
+    const unitLimits = limitsFor(limits, unit);
+    if (typeof targetTemperature !== 'number' || !Number.isInteger(targetTemperature) ||
+        targetTemperature < unitLimits.minTemp || targetTemperature > unitLimits.maxTemp) {
+      errors.push(
+        `${label}.targetTemperature must be a whole number between ${unitLimits.minTemp} and ${unitLimits.maxTemp} (${unit})`
+      );
+    } else {
+      state.targetTemperature = targetTemperature;
+      // Record the unit so the target is converted for devices set to the other one
+      state.temperatureUnit = unit;
+    }
+  }
+
+  Object.keys(rest).forEach(key => errors.push(`${label}.${key} is not a supported AC state property`));
+  if (Object.keys(raw).length === 0) {
+    errors.push(`${label} must change at least one property`);
+  }
+
+  return state;
+}
+
+// The part of a requested state that a write actually changed; a changed target keeps its unit
+export function changedPart(state: Partial<ACState>, changed: Array<keyof ACState>): Partial<ACState> {
+  const part: Record<string, unknown> = {};
+  changed.filter(key => state[key] !== undefined).forEach(key => {
+    part[key] = state[key];
+  });
+  if (part.targetTemperature !== undefined) {
+    part.temperatureUnit = state.temperatureUnit;
+  }
+  return part as Partial<ACState>;
+}
+
+// Value after current in values, wrapping around; the first value if current is unknown
+export function nextValue<T>(values: T[], current: T | undefined): T {
+  const index = current === undefined ? -1 : values.indexOf(current);
+  return values[(index + 1) % values.length];
+}
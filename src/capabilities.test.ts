@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { SensiboAPI } from './sensibo-api.js';
+import {
+  supportedFanLevels, supportedModes, supportedSwingModes, supportedTemperatures, unsupportedReason,
+} from './capabilities.js';
+import { startSimulator, TestSimulator } from './test-support.js';
+import { AC_MODES, ACState, FAN_LEVELS, RemoteCapabilities } from './types.js';
+
+// The simulator's unit: no target in fan mode, 18-30 in dry mode and no quiet fan in heat mode
+describe('Device capabilities from the simulator', () => {
+  let sim: TestSimulator;
+  let api: SensiboAPI;
+  let capabilities: RemoteCapabilities;
+  before(async () => {
+    sim = await startSimulator();
+    api = sim.api();
+    capabilities = await api.loadCapabilities();
+  });
+  after(() => sim.stop());
+
+  it('lists the values each mode supports', () => {
+    assert.deepEqual(supportedModes(capabilities), AC_MODES);
+    assert.deepEqual(supportedFanLevels(capabilities, 'heat'), ['auto', 'low', 'medium', 'high']);
+    assert.deepEqual(supportedSwingModes(capabilities, 'fan'), ['stopped', 'rangeFull']);
+    assert.equal(supportedTemperatures(capabilities, 'fan', 'C'), null);
+    assert.equal(Math.min(...supportedTemperatures(capabilities, 'dry', 'C')!), 18);
+  });
+
+  it('allows every value when the capabilities are unknown', () => {
+    assert.deepEqual(supportedModes(null), AC_MODES);
+    assert.deepEqual(supportedFanLevels(null, 'heat'), FAN_LEVELS);
+    assert.equal(supportedTemperatures(null, 'cool', 'C'), undefined);
+  });
+
+  it('gives the reason a change is not supported in the mode the unit will be in', () => {
+    const reason = (change: Partial<ACState>, mode: ACState['mode']) => unsupportedReason(capabilities, change, mode, 'C');
+
+    assert.equal(reason({ targetTemperature: 16, fanLevel: 'quiet' }, 'cool'), null);
+    assert.deepEqual(reason({ targetTemperature: 16 }, 'dry'), {
+      key: 'temperature.rangeInMode', params: { min: 18, max: 30, mode: 'dry' },
+    });
+    assert.deepEqual(reason({ targetTemperature: 24 }, 'fan'), { key: 'temperature.notAdjustable', params: { mode: 'fan' } });
+    assert.deepEqual(reason({ fanLevel: 'quiet' }, 'heat'), {
+      key: 'fanLevel.unsupported', params: { fanLevel: 'quiet', mode: 'heat' },
+    });
+    assert.deepEqual(reason({ swing: 'fixedTop' }, 'dry'), {
+      key: 'swing.unsupported', params: { swing: 'fixedTop', mode: 'dry' },
+    });
+  });
+
+  it('checks a change against the mode it sets, not the current one', async () => {
+    const state = await api.getCurrentState();
+
+    assert.equal(api.unsupportedReason({ targetTemperature: 16 }, { ...state, mode: 'cool' }), null);
+    assert.equal(api.unsupportedReason({ mode: 'dry', targetTemperature: 16 }, state)?.key, 'temperature.rangeInMode');
+    await assert.rejects(api.setACState({ mode: 'fan', targetTemperature: 24 }), { name: 'UnsupportedStateError' });
+  });
+});
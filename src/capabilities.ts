@@ -0,0 +1,73 @@
+import { AC_MODES, ACMode, ACState, FAN_LEVELS, FanLevel, RemoteCapabilities, SWING_MODES, SwingMode, TemperatureUnit } from './types.js';
+import { englishText, Message } from './messages.js';
+
+// A change the unit cannot apply; the reason is spoken in the configured locale
+export class UnsupportedStateError extends Error {
+  constructor(readonly reason: Message) {
+    super(englishText(reason));
+    this.name = 'UnsupportedStateError';
+  }
+}
+
+// Lists below keep the order of AC_MODES, FAN_LEVELS and SWING_MODES; unknown capabilities allow every value
+
+export function supportedModes(capabilities: RemoteCapabilities | null): ACMode[] {
+  return capabilities ? AC_MODES.filter(mode => capabilities.modes[mode]) : AC_MODES;
+}
+
+export function supportedFanLevels(capabilities: RemoteCapabilities | null, mode: ACMode): FanLevel[] {
+  const modeCapabilities = capabilities?.modes[mode];
+  if (!modeCapabilities) return FAN_LEVELS;
+  return FAN_LEVELS.filter(level => modeCapabilities.fanLevels?.includes(level));
+}
+
+export function supportedSwingModes(capabilities: RemoteCapabilities | null, mode: ACMode): SwingMode[] {
+  const modeCapabilities = capabilities?.modes[mode];
+  if (!modeCapabilities) return SWING_MODES;
+  return SWING_MODES.filter(swing => modeCapabilities.swing?.includes(swing));
+}
+
+// Targets a mode accepts in the given unit: null if the mode has no target (e.g. fan), undefined if unknown
+export function supportedTemperatures(
+  capabilities: RemoteCapabilities | null,
+  mode: ACMode,
+  unit: TemperatureUnit
+): number[] | null | undefined {
+  const modeCapabilities = capabilities?.modes[mode];
+  if (!modeCapabilities) return undefined;
+  if (!modeCapabilities.temperatures) return null;
+  return modeCapabilities.temperatures[unit]?.values;
+}
+
+/**
+ * Why the unit cannot apply a change in the mode it will be in, or null if
+ * it can. Only the properties in the change are checked, with the target in
+ * the device's unit.
+ */
+export function unsupportedReason(
+  capabilities: RemoteCapabilities,
+  change: Partial<ACState>,
+  mode: ACMode,
+  unit: TemperatureUnit
+): Message | null {
+  if (!capabilities.modes[mode]) {
+    return { key: 'mode.unsupported', params: { mode } };
+  }
+
+  if (change.targetTemperature !== undefined) {
+    const values = supportedTemperatures(capabilities, mode, unit);
+    if (values === null) {
+      return { key: 'temperature.notAdjustable', params: { mode } };
+    }
+    if (values && values.length > 0 && !values.includes(change.targetTemperature)) {
+      return { key: 'temperature.rangeInMode', params: { min: Math.min(...values), max: Math.max(...values), mode } };
+    }
+  }
+  if (change.fanLevel && !supportedFanLevels(capabilities, mode).includes(change.fanLevel)) {
+    return { key: 'fanLevel.unsupported', params: { fanLevel: change.fanLevel, mode } };
+  }
+  if (change.swing && !supportedSwingModes(capabilities, mode).includes(change.swing)) {
+    return { key: 'swing.unsupported', params: { swing: change.swing, mode } };
+  }
+  return null;
+}
@@ -0,0 +1,80 @@
+import { EventEmitter } from 'events';
+import winston from 'winston';
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  resetTimeout: number; // Seconds before a trial request is let through
+}
+
+export interface CircuitBreakerEvents {
+  open: [];
+  close: [];
+}
+
+export class CircuitOpenError extends Error {
+  constructor() {
+    super('Sensibo unreachable, not sending request');
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Stops requests to an API that keeps failing. After failureThreshold
+ * consecutive failures the circuit opens and requests are rejected at once.
+ * After resetTimeout one trial request is let through: success closes the
+ * circuit, failure keeps it open for another resetTimeout.
+ */
+export class CircuitBreaker extends EventEmitter<CircuitBreakerEvents> {
+  private logger: winston.Logger;
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(private config: CircuitBreakerConfig, logger: winston.Logger) {
+    super();
+    this.logger = logger;
+  }
+
+  isOpen(): boolean {
+    return this.openedAt !== null;
+  }
+
+  // Throws CircuitOpenError unless a request may be sent now
+  beforeRequest(): void {
+    if (this.openedAt === null) {
+      return;
+    }
+    if (this.trialInFlight || Date.now() - this.openedAt < this.config.resetTimeout * 1000) {
+      throw new CircuitOpenError();
+    }
+    this.trialInFlight = true;
+    this.logger.info('Circuit half-open, sending trial request');
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.trialInFlight = false;
+    if (this.openedAt !== null) {
+      this.openedAt = null;
+      this.logger.info('Circuit closed, Sensibo API reachable again');
+      this.emit('close');
+    }
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.openedAt !== null) {
+      // Failed trial: wait another resetTimeout
+      this.openedAt = Date.now();
+      this.trialInFlight = false;
+      return;
+    }
+    if (this.failures >= this.config.failureThreshold) {
+      this.openedAt = Date.now();
+      this.logger.warn(
+        `Circuit opened after ${this.failures} consecutive failures, pausing requests for ${this.config.resetTimeout}s`
+      );
+      this.emit('open');
+    }
+  }
+}
@@ -0,0 +1,330 @@
+#!/usr/bin/env node
+import dotenv from 'dotenv';
+import winston from 'winston';
+import { parseArgs } from 'util';
+import { SensiboAPI } from './sensibo-api.js';
+import { DeviceManager } from './devices.js';
+import { DEFAULT_CONFIG_FILE, loadConfig, migrateEnvFile } from './config.js';
+import { withRetry } from './retry.js';
+import { createCliLogger } from './logger.js';
+import { convertTemperature } from './ac-state.js';
+import { HistoryStore, toCsv } from './history.js';
+import { CommandHistory, describeChange } from './command-history.js';
+import { ACState, AppConfig, ConfigurationError, Device } from './types.js';
+import { Messages } from './messages.js';
+
+// Exit codes for one-shot commands
+const EXIT_OK = 0;
+const EXIT_FAILED = 1; // Sensibo API call failed after all retries
+const EXIT_USAGE = 2; // Unknown command or invalid argument
+const EXIT_CONFIG = 3; // Invalid configuration
+
+const USAGE = `Usage: ac-controller [command] [options]
+
+Without a command, starts the hotkey controller.
+
+Commands:
+  status            Show AC state and room temperature
+  on                Turn the AC on (with state sync)
+  off               Turn the AC off (with state sync)
+  set <temperature> Set the target temperature
+  devices           List the devices on the account
+  history [hours]   Room temperature and humidity summary (default: last 24 hours)
+  export [hours]    Recorded history as CSV (default: last 24 hours)
+  commands [count]  Recent commands and the changes they made (default: last 20)
+
+Options:
+  --device <name>   Device name or ID (default: sensibo.activeDevice or the first device)
+  --json            Print JSON instead of text
+  --verbose         Log progress to stderr
+  --help            Show this help`;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+interface CliContext {
+  config: AppConfig;
+  logger: winston.Logger;
+  sensiboAPI: SensiboAPI;
+  messages: Messages; // Results are reported as the controller would speak them
+  json: boolean;
+}
+
+function print(context: CliContext, text: string, data: unknown): void {
+  console.log(context.json ? JSON.stringify(data, null, 2) : text);
+}
+
+function retry<T>(context: CliContext, operation: () => Promise<T>, operationName: string): Promise<T | null> {
+  return withRetry(operation, operationName, context.config, context.logger);
+}
+
+async function resolveDevice(context: CliContext, name: string | undefined): Promise<Device | null> {
+  const deviceManager = new DeviceManager(
+    context.sensiboAPI, context.config.devices, context.config.deviceId, context.logger
+  );
+
+  // Discovery is only needed when no devices are configured
+  const discovered = context.config.devices.length === 0
+    ? await retry(context, () => context.sensiboAPI.listDevices(), 'Device discovery')
+    : null;
+  if (context.config.devices.length === 0 && !discovered) {
+    return null;
+  }
+
+  deviceManager.initialize(discovered);
+  if (!name) {
+    return deviceManager.getActiveDevice();
+  }
+
+  const device = deviceManager.selectByName(name);
+  if (!device) {
+    throw new UsageError(`Unknown device "${name}"`);
+  }
+  return device;
+}
+
+async function runCommand(context: CliContext, command: string, args: string[], deviceName?: string): Promise<number> {
+  const { sensiboAPI, messages } = context;
+
+  if (command === 'devices') {
+    const devices = await retry(context, () => sensiboAPI.listDevices(), 'Device discovery');
+    if (!devices) return EXIT_FAILED;
+    print(context, devices.map(device => `${device.name}\t${device.id}`).join('\n'), devices);
+    return EXIT_OK;
+  }
+
+  // History is read from local files only
+  if (command === 'history' || command === 'export') {
+    return runHistoryCommand(context, command, args, deviceName);
+  }
+  if (command === 'commands') {
+    return runCommandsCommand(context, args, deviceName);
+  }
+
+  // Validate arguments before touching the API
+  let temperature = 0;
+  if (command === 'set') {
+    if (args.length !== 1 || !/^\d+$/.test(args[0])) {
+      throw new UsageError('set needs a whole-number temperature, e.g. "ac-controller set 23"');
+    }
+    temperature = parseInt(args[0], 10);
+  } else if (!['status', 'on', 'off'].includes(command)) {
+    throw new UsageError(`Unknown command "${command}"`);
+  } else if (args.length > 0) {
+    throw new UsageError(`${command} takes no arguments`);
+  }
+
+  const device = await resolveDevice(context, deviceName);
+  if (!device) return EXIT_FAILED;
+
+  if (command === 'status') {
+    const status = await retry(context, async () => {
+      const [state, roomTemperature, timer] = await Promise.all([
+        sensiboAPI.getCurrentState(),
+        sensiboAPI.getRoomTemperature(),
+        sensiboAPI.getTimer().catch(() => null),
+      ]);
+      return { device, state, roomTemperature, timer };
+    }, 'Get status');
+    if (!status) return EXIT_FAILED;
+
+    const { state, roomTemperature, timer } = status;
+    const timerText = timer?.isEnabled
+      ? `, timer: ${messages.state(timer.acState).toLowerCase()} at ${new Date(timer.targetTime).toLocaleTimeString()}`
+      : '';
+    print(
+      context,
+      `${device.name}: ${state.on ? 'ON' : 'OFF'}, ${state.mode}, fan ${state.fanLevel}, ` +
+        `target ${state.targetTemperature}°${state.temperatureUnit}, ` +
+        `room ${convertTemperature(roomTemperature, 'C', state.temperatureUnit).toFixed(1)}°${state.temperatureUnit}` +
+        timerText,
+      status
+    );
+    return EXIT_OK;
+  }
+
+  let operationName: string;
+  let message: string;
+  let unchangedMessage: string; // When the AC already was in the requested state
+  let operation: () => Promise<Array<keyof ACState>>;
+  if (command === 'set') {
+    // The range depends on the device's unit and mode, so the state is needed first
+    const state = await retry(context, () => sensiboAPI.getCurrentState(), 'Get state');
+    if (!state) return EXIT_FAILED;
+    // Without capabilities the configured range applies
+    await sensiboAPI.loadCapabilities().catch(() => null);
+    const reason = sensiboAPI.unsupportedReason({ targetTemperature: temperature }, state);
+    if (reason) {
+      throw new UsageError(`${messages.text(reason)} (${state.temperatureUnit})`);
+    }
+
+    const degrees = messages.degrees(temperature, state.temperatureUnit);
+    operationName = 'Set temperature';
+    message = messages.format('temperature.set', { temperature: degrees });
+    unchangedMessage = messages.format('temperature.already', { temperature: degrees });
+    operation = () => sensiboAPI.setTemperature(temperature, state);
+  } else {
+    const on = command === 'on';
+    operationName = on ? 'Power on with sync' : 'Power off with sync';
+    message = messages.format(on ? 'power.on' : 'power.off');
+    unchangedMessage = message; // Power is always sent, in case Sensibo is out of sync with the AC
+    operation = () => sensiboAPI.setPowerWithSync(on);
+  }
+
+  const changed = await retry(context, operation, operationName);
+
+  if (!changed) {
+    print(context, `${operationName} failed`, { success: false, device, message: `${operationName} failed` });
+    return EXIT_FAILED;
+  }
+
+  const result = changed.length > 0 ? message : unchangedMessage;
+  print(context, `${device.name}: ${result}`, { success: true, device, message: result, changed });
+  return EXIT_OK;
+}
+
+function runHistoryCommand(context: CliContext, command: string, args: string[], deviceName?: string): number {
+  if (args.length > 1 || (args.length === 1 && !/^\d+$/.test(args[0]))) {
+    throw new UsageError(`${command} takes an optional number of hours, e.g. "ac-controller ${command} 48"`);
+  }
+  const hours = args.length === 1 ? parseInt(args[0], 10) : 24;
+  if (hours < 1) {
+    throw new UsageError('hours must be at least 1');
+  }
+
+  const store = new HistoryStore(context.config.history, context.logger);
+  const matchesDevice = (sample: { deviceId: string; deviceName: string }) =>
+    !deviceName || sample.deviceId === deviceName || sample.deviceName.toLowerCase() === deviceName.toLowerCase();
+
+  if (command === 'export') {
+    const samples = store.query(new Date(Date.now() - hours * 3600000)).filter(matchesDevice);
+    process.stdout.write(context.json ? JSON.stringify(samples, null, 2) + '\n' : toCsv(samples));
+    return EXIT_OK;
+  }
+
+  const summaries = store.summarize(hours).filter(matchesDevice);
+  const unit = context.config.displayUnit === 'F' ? 'F' : 'C';
+  const degrees = (celsius: number) => `${convertTemperature(celsius, 'C', unit).toFixed(1)}°${unit}`;
+  const text = summaries.length === 0
+    ? `No history recorded in the last ${hours} hours`
+    : summaries.map(summary =>
+      `${summary.deviceName}: room ${degrees(summary.temperature.min)} to ${degrees(summary.temperature.max)} ` +
+      `(avg ${degrees(summary.temperature.avg)}), humidity ${summary.humidity.min}% to ${summary.humidity.max}% ` +
+      `(avg ${summary.humidity.avg}%), on ${summary.onPercent}% of ${summary.samples} samples`
+    ).join('\n');
+  print(context, text, summaries);
+  return EXIT_OK;
+}
+
+function runCommandsCommand(context: CliContext, args: string[], deviceName?: string): number {
+  if (args.length > 1 || (args.length === 1 && !/^\d+$/.test(args[0]))) {
+    throw new UsageError('commands takes an optional number of commands, e.g. "ac-controller commands 50"');
+  }
+  const count = args.length === 1 ? parseInt(args[0], 10) : 20;
+  if (count < 1) {
+    throw new UsageError('count must be at least 1');
+  }
+
+  const history = new CommandHistory(context.config.history.dir, context.logger);
+  history.load();
+  const records = history.getRecords()
+    .filter(record => !deviceName || record.deviceId === deviceName ||
+      record.deviceName.toLowerCase() === deviceName.toLowerCase())
+    .slice(-count);
+
+  const text = records.length === 0
+    ? 'No commands recorded'
+    : records.map(record =>
+      `${new Date(record.time).toLocaleString()}  ${record.source}  ${record.deviceName}: ${record.command}: ` +
+      `${describeChange(record)}${history.isReverted(record) ? ' (undone)' : ''}`
+    ).join('\n');
+  print(context, text, records.map(record => ({ ...record, reverted: history.isReverted(record) })));
+  return EXIT_OK;
+}
+
+async function main(): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        device: { type: 'string' },
+        json: { type: 'boolean', default: false },
+        verbose: { type: 'boolean', default: false },
+        help: { type: 'boolean', default: false },
+      },
+    });
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(USAGE);
+    return EXIT_USAGE;
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+
+  // No command: run the hotkey controller
+  if (positionals.length === 0) {
+    await import('./index.js');
+    return -1;
+  }
+
+  const logger = createCliLogger(values.verbose ? 'info' : 'warn');
+  const configFile = process.env.CONFIG_FILE || DEFAULT_CONFIG_FILE;
+
+  let config: AppConfig;
+  try {
+    migrateEnvFile(configFile, logger);
+    dotenv.config({ quiet: true });
+    config = loadConfig(configFile);
+  } catch (error) {
+    if (error instanceof ConfigurationError) {
+      console.error('Configuration validation failed:');
+      error.errors.forEach(err => console.error(`  - ${err}`));
+      return EXIT_CONFIG;
+    }
+    throw error;
+  }
+
+  const context: CliContext = {
+    config,
+    logger,
+    sensiboAPI: new SensiboAPI(config, logger),
+    messages: new Messages(config.locale, config.messages),
+    json: values.json ?? false,
+  };
+
+  const [command, ...args] = positionals;
+  try {
+    return await runCommand(context, command, args, values.device);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      if (context.json) {
+        console.log(JSON.stringify({ success: false, message: error.message }, null, 2));
+      } else {
+        console.error(error.message);
+      }
+      return EXIT_USAGE;
+    }
+    throw error;
+  }
+}
+
+main()
+  .then(code => {
+    // The hotkey controller manages its own lifetime
+    if (code >= 0) {
+      process.exitCode = code;
+    }
+  })
+  .catch(error => {
+    console.error('Command failed:', error instanceof Error ? error.message : error);
+    process.exitCode = EXIT_FAILED;
+  });
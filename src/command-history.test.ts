@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { CommandHistory, CommandRecord, describeChange, revertedState } from './command-history.js';
+import { silentLogger } from './test-support.js';
+import { ACState } from './types.js';
+
+const BEFORE: ACState = { on: true, mode: 'cool', fanLevel: 'auto', targetTemperature: 21, temperatureUnit: 'C' };
+
+function change(after: Partial<ACState>, deviceId = 'abc'): Omit<CommandRecord, 'id' | 'time'> {
+  return {
+    command: 'Set temperature', source: 'hotkey', deviceId, deviceName: 'Living Room', before: BEFORE, after: { ...BEFORE, ...after },
+  };
+}
+
+describe('Command records', () => {
+  it('describes and reverts only the properties a command changed', () => {
+    const record = { id: 1, time: '', ...change({ targetTemperature: 24, fanLevel: 'high' }) };
+
+    assert.equal(describeChange(record), 'target 21 -> 24, fan auto -> high');
+    assert.deepEqual(revertedState(record), { targetTemperature: 21, fanLevel: 'auto', temperatureUnit: 'C' });
+  });
+
+  it('reverts power without a target', () => {
+    const record = { id: 1, time: '', ...change({ on: false }) };
+
+    assert.equal(describeChange(record), 'power on -> off');
+    assert.deepEqual(revertedState(record), { on: true });
+  });
+});
+
+describe('CommandHistory', () => {
+  let dir: string;
+  beforeEach(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'command-history-test-')); });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('finds the latest change per device that has not been undone', () => {
+    const history = new CommandHistory(dir, silentLogger);
+    const first = history.record(change({ targetTemperature: 22 }));
+    const second = history.record(change({ targetTemperature: 23 }));
+    history.record(change({ on: false }, 'def'));
+
+    assert.equal(history.lastUndoable('abc'), second);
+    history.record({ ...change({}), command: 'Undo', source: 'undo', reverts: second.id });
+    // The undo itself is not undone in turn
+    assert.equal(history.lastUndoable('abc'), first);
+    assert.equal(history.lastUndoable('ghi'), null);
+  });
+
+  it('keeps undone commands across a restart, skipping a partial last line', () => {
+    const history = new CommandHistory(dir, silentLogger);
+    const first = history.record(change({ targetTemperature: 22 }));
+    const second = history.record(change({ targetTemperature: 23 }));
+    history.record({ ...change({}), command: 'Undo', source: 'undo', reverts: second.id });
+    fs.appendFileSync(path.join(dir, 'commands.jsonl'), '{"id": 4, "ti');
+
+    const reloaded = new CommandHistory(dir, silentLogger);
+    reloaded.load();
+
+    assert.equal(reloaded.getRecords().length, 3);
+    assert.deepEqual(reloaded.lastUndoable('abc'), first);
+    assert.equal(reloaded.record(change({ on: false })).id, 4);
+  });
+});
@@ -0,0 +1,140 @@
+import fs from 'fs';
+import path from 'path';
+import winston from 'winston';
+import { ACState, CommandSource } from './types.js';
+import { diffStates, StateDiff } from './state-cache.js';
+
+// One line of the command history file
+export interface CommandRecord {
+  id: number;
+  time: string; // ISO timestamp
+  command: string; // e.g. "Set temperature"
+  source: CommandSource;
+  deviceId: string;
+  deviceName: string;
+  before: ACState;
+  after: ACState;
+  reverts?: number; // Undo only: id of the record it reverted
+}
+
+const FILE_NAME = 'commands.jsonl';
+// Records kept in memory and in the file; older ones are dropped
+const MAX_RECORDS = 200;
+
+const PROPERTY_LABELS: Record<string, string> = {
+  on: 'power', mode: 'mode', targetTemperature: 'target', temperatureUnit: 'unit', fanLevel: 'fan', swing: 'swing',
+};
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'boolean') return value ? 'on' : 'off';
+  return value === undefined ? '-' : String(value);
+}
+
+// e.g. "target 21 -> 12, fan auto -> high"
+export function describeChange(record: CommandRecord): string {
+  return Object.entries(diffStates(record.before, record.after) as Record<string, { from: unknown; to: unknown }>)
+    .map(([property, change]) => `${PROPERTY_LABELS[property]} ${formatValue(change.from)} -> ${formatValue(change.to)}`)
+    .join(', ');
+}
+
+// Properties a record changed, with their values from before the command
+export function revertedState(record: CommandRecord): Partial<ACState> {
+  const diff: StateDiff = diffStates(record.before, record.after);
+  const state: Record<string, unknown> = {};
+  Object.keys(diff).forEach(property => {
+    state[property] = record.before[property as keyof ACState];
+  });
+  // The target is only meaningful in the unit it was recorded in
+  if (state.targetTemperature !== undefined) {
+    state.temperatureUnit = record.before.temperatureUnit;
+  }
+  return state as Partial<ACState>;
+}
+
+/**
+ * AC state changes made by the controller's commands, with the state before
+ * and after each one, kept in a JSONL file in the history directory so the
+ * CLI can list them and undo works across restarts.
+ */
+export class CommandHistory {
+  private logger: winston.Logger;
+  private filePath: string;
+  private records: CommandRecord[] = [];
+  private lines = 0; // Lines in the file, compacted once they reach twice MAX_RECORDS
+
+  constructor(dir: string, logger: winston.Logger) {
+    this.logger = logger;
+    this.filePath = path.join(dir, FILE_NAME);
+  }
+
+  load(): void {
+    let content: string;
+    try {
+      content = fs.readFileSync(this.filePath, 'utf-8');
+    } catch {
+      return;
+    }
+
+    // A crash mid-write can leave a partial last line; skip anything unparsable
+    const records: CommandRecord[] = [];
+    content.split('\n').filter(Boolean).forEach(line => {
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        this.logger.debug(`Skipping malformed line in ${this.filePath}`);
+      }
+    });
+    this.lines = records.length;
+    this.records = records.slice(-MAX_RECORDS);
+  }
+
+  record(entry: Omit<CommandRecord, 'id' | 'time'>): CommandRecord {
+    const record: CommandRecord = {
+      id: (this.records[this.records.length - 1]?.id ?? 0) + 1,
+      time: new Date().toISOString(),
+      ...entry,
+    };
+    this.records = [...this.records, record].slice(-MAX_RECORDS);
+    this.logger.info(`Command history: ${record.command} (${record.source}) on ${record.deviceName}: ${describeChange(record)}`);
+    this.write(record);
+    return record;
+  }
+
+  // Newest last
+  getRecords(limit: number = MAX_RECORDS): CommandRecord[] {
+    return this.records.slice(-limit);
+  }
+
+  isReverted(record: CommandRecord): boolean {
+    return this.records.some(other => other.reverts === record.id);
+  }
+
+  // Latest change to the device that neither is an undo nor has been undone
+  lastUndoable(deviceId: string): CommandRecord | null {
+    for (let i = this.records.length - 1; i >= 0; i--) {
+      const record = this.records[i];
+      if (record.deviceId === deviceId && record.reverts === undefined && !this.isReverted(record)) {
+        return record;
+      }
+    }
+    return null;
+  }
+
+  private write(record: CommandRecord): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      if (this.lines >= 2 * MAX_RECORDS) {
+        // Rewrite with the kept records only, atomically
+        const tempPath = `${this.filePath}.tmp`;
+        fs.writeFileSync(tempPath, this.records.map(kept => JSON.stringify(kept) + '\n').join(''));
+        fs.renameSync(tempPath, this.filePath);
+        this.lines = this.records.length;
+      } else {
+        fs.appendFileSync(this.filePath, JSON.stringify(record) + '\n');
+        this.lines++;
+      }
+    } catch (error) {
+      this.logger.error(`Failed to write command history to ${this.filePath}:`, error);
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CommandQueue } from './command-queue.js';
+import { silentLogger } from './test-support.js';
+
+// A command that finishes when release() is called
+function deferred<T>(value: T) {
+  let release!: () => void;
+  const done = new Promise<void>(resolve => { release = resolve; });
+  return { release, run: async () => { await done; return value; } };
+}
+
+describe('CommandQueue', () => {
+  it('runs commands one at a time, in the order they were received', async () => {
+    const queue = new CommandQueue(silentLogger);
+    const log: string[] = [];
+    const command = (name: string) => queue.enqueue(name, null, async () => {
+      log.push(`${name} start`);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      log.push(`${name} end`);
+      return name;
+    });
+
+    const results = await Promise.all([command('a'), command('b'), command('c')]);
+
+    assert.deepEqual(results, ['a', 'b', 'c']);
+    assert.deepEqual(log, ['a start', 'a end', 'b start', 'b end', 'c start', 'c end']);
+  });
+
+  it('drops a waiting command superseded by one with the same key', async () => {
+    const queue = new CommandQueue(silentLogger);
+    const first = deferred('first');
+    const running = queue.enqueue('first', null, first.run);
+    const older = queue.enqueue('older', 'temperature', async () => 'older');
+    const other = queue.enqueue('other', 'mode', async () => 'other');
+    const newer = queue.enqueue('newer', 'temperature', async () => 'newer');
+    first.release();
+
+    assert.deepEqual(await Promise.all([running, older, other, newer]), ['first', null, 'other', 'newer']);
+  });
+
+  it('aborts a running command superseded by one with the same key', async () => {
+    const queue = new CommandQueue(silentLogger);
+    let aborted = false;
+    const running = queue.enqueue('older', 'temperature', signal => new Promise<string>(resolve => {
+      signal.addEventListener('abort', () => {
+        aborted = true;
+        resolve('older');
+      });
+    }));
+    const newer = queue.enqueue('newer', 'temperature', async () => 'newer');
+
+    assert.equal(await running, null);
+    assert.equal(await newer, 'newer');
+    assert.ok(aborted);
+  });
+
+  it('rejects with the error of a failed command and runs the next one', async () => {
+    const queue = new CommandQueue(silentLogger);
+    const failed = queue.enqueue('failing', null, async () => { throw new Error('boom'); });
+    const next = queue.enqueue('next', null, async () => 'next');
+
+    await assert.rejects(failed, /boom/);
+    assert.equal(await next, 'next');
+  });
+});
@@ -0,0 +1,85 @@
+import winston from 'winston';
+
+export type Command<T> = (signal: AbortSignal) => Promise<T>;
+
+interface QueuedCommand {
+  name: string;
+  key: string | null;
+  run: Command<unknown>;
+  controller: AbortController;
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Runs commands one at a time in the order they were received, so two
+ * read-modify-write sequences never interleave. Commands with the same key
+ * conflict: a newer one drops any older one still waiting (last write wins)
+ * and aborts the one running, which cancels its pending retries. A dropped
+ * or aborted command resolves with null and should not announce anything.
+ *
+ * Within the running controller the queue is the only way to write to an
+ * AC: hotkeys, HTTP, MQTT, schedules, undo and the thermostat all enqueue
+ * their writes, and nothing in that process calls a SensiboAPI write method
+ * outside a queued command. Otherwise a write could merge into a state
+ * another one is changing. The ac-controller CLI (cli.ts) runs in a process
+ * of its own and writes directly, outside this queue, like the Sensibo app.
+ */
+export class CommandQueue {
+  private logger: winston.Logger;
+  private pending: QueuedCommand[] = [];
+  private running: QueuedCommand | null = null;
+
+  constructor(logger: winston.Logger) {
+    this.logger = logger;
+  }
+
+  enqueue<T>(name: string, key: string | null, run: Command<T>): Promise<T | null> {
+    if (key !== null) {
+      this.supersede(key, name);
+    }
+
+    return new Promise<T | null>((resolve, reject) => {
+      this.pending.push({
+        name,
+        key,
+        run,
+        controller: new AbortController(),
+        resolve: resolve as (result: unknown) => void,
+        reject,
+      });
+      this.next();
+    });
+  }
+
+  private supersede(key: string, by: string): void {
+    this.pending = this.pending.filter(command => {
+      if (command.key !== key) return true;
+      this.logger.info(`${command.name} superseded by ${by}`);
+      command.resolve(null);
+      return false;
+    });
+
+    if (this.running?.key === key && !this.running.controller.signal.aborted) {
+      this.logger.info(`Cancelling ${this.running.name}, superseded by ${by}`);
+      this.running.controller.abort();
+    }
+  }
+
+  private async next(): Promise<void> {
+    if (this.running || this.pending.length === 0) return;
+
+    const command = this.pending.shift()!;
+    this.running = command;
+    const { signal } = command.controller;
+    try {
+      const result = await command.run(signal);
+      command.resolve(signal.aborted ? null : result);
+    } catch (error) {
+      command.reject(error);
+    } finally {
+      this.running = null;
+      this.next();
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import fs from 'fs';
+import path from 'path';
+import { EventEmitter } from 'events';
+import winston from 'winston';
+import { AppConfig, ConfigurationError } from './types.js';
+import { loadConfig } from './config.js';
+
+export interface ConfigWatcherEvents {
+  reload: [AppConfig];
+  invalid: [string[]];
+}
+
+// Editors write in several steps; wait for the file to settle
+const SETTLE_DELAY = 300;
+
+/**
+ * Watches the config file, and the keymap file it names, and loads the
+ * config again when either changes. A valid config is emitted as reload; an
+ * invalid one is reported with its errors and otherwise ignored, so the
+ * last good config keeps running.
+ */
+export class ConfigWatcher extends EventEmitter<ConfigWatcherEvents> {
+  private logger: winston.Logger;
+  private watchers: fs.FSWatcher[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private lastContent: string | null;
+
+  constructor(private filePath: string, private keymapFile: string | null, logger: winston.Logger) {
+    super();
+    this.logger = logger;
+    this.lastContent = this.readContent();
+  }
+
+  start(): void {
+    [this.filePath, this.keymapFile].forEach(file => file && this.watch(file));
+  }
+
+  private watch(file: string): void {
+    // The directory, not the file: editors that save by renaming replace the watched file
+    const resolved = path.resolve(file);
+    try {
+      this.watchers.push(fs.watch(path.dirname(resolved), (_event, filename) => {
+        if (filename === path.basename(resolved)) {
+          this.scheduleReload();
+        }
+      }));
+      this.logger.info(`Watching ${file} for changes`);
+    } catch (error) {
+      this.logger.warn(`Cannot watch ${file}, changes need a restart:`, error);
+    }
+  }
+
+  stop(): void {
+    this.closeWatchers();
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private closeWatchers(): void {
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers = [];
+  }
+
+  private scheduleReload(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.reload();
+    }, SETTLE_DELAY);
+  }
+
+  private reload(): void {
+    // Unchanged content (a save without edits, or a bad edit undone) keeps the running config
+    const content = this.readContent();
+    if (content === this.lastContent) {
+      return;
+    }
+
+    let config: AppConfig;
+    try {
+      config = loadConfig(this.filePath);
+    } catch (error) {
+      const errors = error instanceof ConfigurationError
+        ? error.errors
+        : [error instanceof Error ? error.message : String(error)];
+      this.logger.error('The config changed but is invalid, keeping the previous config:');
+      errors.forEach(err => this.logger.error(`  - ${err}`));
+      this.emit('invalid', errors);
+      return;
+    }
+
+    // The config may name another keymap file, or move the bindings inline
+    if (config.keymapFile !== this.keymapFile) {
+      this.keymapFile = config.keymapFile;
+      this.closeWatchers();
+      this.start();
+    }
+    this.lastContent = this.readContent();
+    this.logger.info('The config changed, applying it');
+    this.emit('reload', config);
+  }
+
+  // Both files, so an edit to either one counts as a change
+  private readContent(): string | null {
+    const read = (file: string) => {
+      try {
+        return fs.readFileSync(path.resolve(file), 'utf-8');
+      } catch {
+        return null;
+      }
+    };
+    return JSON.stringify([read(this.filePath), this.keymapFile && read(this.keymapFile)]);
+  }
+}
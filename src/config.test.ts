@@ -0,0 +1,147 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { applyLiveSettings, loadConfig, migrateEnvFile } from './config.js';
+import { ConfigWatcher } from './config-watcher.js';
+import { DEFAULT_KEYMAP } from './keymap.js';
+import { silentLogger, waitFor } from './test-support.js';
+import { AppConfig, ConfigurationError } from './types.js';
+
+describe('Config file', () => {
+  let dir: string;
+  let configFile: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-test-'));
+    configFile = path.join(dir, 'config.json');
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  function write(file: string, data: unknown): void {
+    fs.writeFileSync(file, typeof data === 'string' ? data : JSON.stringify(data));
+  }
+
+  // A valid config with the given settings, bindings inline so no keymap file is read
+  function writeConfig(data: Record<string, unknown> = {}): void {
+    write(configFile, { sensibo: { apiKey: 'test' }, keymap: DEFAULT_KEYMAP, ...data });
+  }
+
+  describe('migrateEnvFile', () => {
+    it('moves the settings from .env into a new config file', () => {
+      const envFile = path.join(dir, '.env');
+      write(envFile, [
+        'SENSIBO_API_KEY=secret',
+        'SENSIBO_DEVICES=Living Room=abc123,def456',
+        'MIN_TEMP=18',
+        'MQTT_DISCOVERY=false',
+        'VOICE_QUIET_HOURS=22:00-07:00, 13:00-15:00',
+        'VOICE_VOLUME=',
+        'NODE_OPTIONS=--max-old-space-size=256',
+      ].join('\n'));
+
+      migrateEnvFile(configFile, silentLogger, envFile);
+
+      assert.deepEqual(JSON.parse(fs.readFileSync(configFile, 'utf-8')), {
+        sensibo: { apiKey: 'secret', devices: [{ name: 'Living Room', id: 'abc123' }, { id: 'def456' }] },
+        temperature: { min: 18 },
+        mqtt: { discovery: false },
+        voice: { quietHours: { windows: ['22:00-07:00', '13:00-15:00'] } },
+      });
+      assert.ok(fs.existsSync(`${envFile}.migrated`));
+      // What isn't a setting stays in .env
+      assert.equal(fs.readFileSync(envFile, 'utf-8'), 'NODE_OPTIONS="--max-old-space-size=256"\n');
+      assert.equal(loadConfig(configFile).minTemp, 18);
+    });
+
+    it('leaves an existing config file and .env alone', () => {
+      const envFile = path.join(dir, '.env');
+      write(envFile, 'MIN_TEMP=18\n');
+      writeConfig();
+
+      migrateEnvFile(configFile, silentLogger, envFile);
+
+      assert.equal(fs.readFileSync(envFile, 'utf-8'), 'MIN_TEMP=18\n');
+      assert.ok(!fs.existsSync(`${envFile}.migrated`));
+    });
+  });
+
+  describe('loadConfig', () => {
+    it('reports every invalid setting at once', () => {
+      write(configFile, { temperature: { min: 5 }, voice: { verbosity: 'chatty' }, keymap: DEFAULT_KEYMAP });
+
+      assert.throws(() => loadConfig(configFile), (error: unknown) => {
+        assert.ok(error instanceof ConfigurationError);
+        assert.equal(error.errors.length, 3);
+        return true;
+      });
+    });
+
+    it('lets environment variables override the file', () => {
+      writeConfig({ temperature: { min: 18 } });
+      process.env.MIN_TEMP = '20';
+      try {
+        assert.equal(loadConfig(configFile).minTemp, 20);
+      } finally {
+        delete process.env.MIN_TEMP;
+      }
+    });
+  });
+
+  describe('applyLiveSettings', () => {
+    it('applies live settings in place and lists the ones that need a restart', () => {
+      writeConfig();
+      const config = loadConfig(configFile);
+      const thermostat = config.thermostat;
+      writeConfig({ temperature: { min: 18 }, thermostat: { hysteresis: 1 }, http: { port: 8080, token: 'a-long-enough-secret' } });
+
+      const restartRequired = applyLiveSettings(config, loadConfig(configFile));
+
+      assert.deepEqual(restartRequired, ['http']);
+      assert.equal(config.minTemp, 18);
+      // Still off until a restart
+      assert.equal(config.http, undefined);
+      // Shared with the thermostat, so updated rather than replaced
+      assert.equal(config.thermostat, thermostat);
+      assert.equal(thermostat.hysteresis, 1);
+    });
+  });
+
+  describe('ConfigWatcher', () => {
+    let watcher: ConfigWatcher;
+    afterEach(() => watcher.stop());
+
+    function watch(config: AppConfig): { reloads: AppConfig[]; invalid: string[][] } {
+      const events = { reloads: [] as AppConfig[], invalid: [] as string[][] };
+      watcher = new ConfigWatcher(configFile, config.keymapFile, silentLogger);
+      watcher.on('reload', next => events.reloads.push(next));
+      watcher.on('invalid', errors => events.invalid.push(errors));
+      watcher.start();
+      return events;
+    }
+
+    it('reloads an edited config file, and reports an invalid one', async () => {
+      writeConfig();
+      const events = watch(loadConfig(configFile));
+
+      writeConfig({ temperature: { min: 18 } });
+      await waitFor(() => events.reloads.length === 1);
+      assert.equal(events.reloads[0].minTemp, 18);
+
+      write(configFile, '{ "sensibo": ');
+      await waitFor(() => events.invalid.length === 1);
+      assert.equal(events.reloads.length, 1);
+    });
+
+    it('reloads when the keymap file changes', async () => {
+      const keymapFile = path.join(dir, 'keymap.json');
+      write(keymapFile, DEFAULT_KEYMAP);
+      write(configFile, { sensibo: { apiKey: 'test' }, keymap: keymapFile });
+      const events = watch(loadConfig(configFile));
+
+      write(keymapFile, { ...DEFAULT_KEYMAP, sequenceTimeout: 2000 });
+      await waitFor(() => events.reloads.length === 1);
+      assert.equal(events.reloads[0].keymap.sequenceTimeout, 2000);
+    });
+  });
+});
@@ -0,0 +1,540 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import winston from 'winston';
+import { AppConfig, ConfigurationError, DeviceConfig, QuietHoursConfig } from './types.js';
+import { SPEECH_BACKENDS, VOICE_BACKENDS, VoiceBackendName, VoiceNames } from './speech.js';
+import { Keymap, loadKeymap, validateKeymap } from './keymap.js';
+import { LOCALES, validateMessageOverrides } from './messages.js';
+
+export const DEFAULT_CONFIG_FILE = 'config.json';
+
+const LOG_LEVELS = ['error', 'warn', 'info', 'http', 'verbose', 'debug', 'silly'];
+
+/**
+ * A setting in the config file. path is its place in the file (e.g.
+ * 'voice.volume'); the environment variable env overrides it.
+ */
+interface Setting {
+  path: string;
+  env: string;
+  type: 'string' | 'integer' | 'number' | 'boolean';
+  default?: string | number | boolean;
+  required?: boolean;
+  min?: number;
+  max?: number;
+  orZero?: boolean; // 0 (disabled) is allowed besides min-max
+  values?: readonly string[];
+}
+
+const SETTINGS: Setting[] = [
+  { path: 'sensibo.apiKey', env: 'SENSIBO_API_KEY', type: 'string', required: true },
+  { path: 'sensibo.apiUrl', env: 'SENSIBO_API_URL', type: 'string', default: 'https://home.sensibo.com/api/v2' },
+  { path: 'sensibo.activeDevice', env: 'SENSIBO_DEVICE_ID', type: 'string' },
+  { path: 'temperature.min', env: 'MIN_TEMP', type: 'integer', default: 16, min: 10, max: 35 },
+  { path: 'temperature.max', env: 'MAX_TEMP', type: 'integer', default: 30, min: 15, max: 40 },
+  { path: 'temperature.displayUnit', env: 'DISPLAY_UNIT', type: 'string', default: 'device', values: ['device', 'C', 'F'] },
+  { path: 'voice.backend', env: 'VOICE_BACKEND', type: 'string', default: 'auto', values: SPEECH_BACKENDS },
+  { path: 'voice.volume', env: 'VOICE_VOLUME', type: 'integer', default: 30, min: 0, max: 100 },
+  { path: 'voice.locale', env: 'VOICE_LOCALE', type: 'string', default: 'en', values: LOCALES },
+  { path: 'voice.verbosity', env: 'VOICE_VERBOSITY', type: 'string', default: 'full', values: ['silent', 'errors', 'confirmations', 'full'] },
+  { path: 'voice.quietHours.mode', env: 'VOICE_QUIET_MODE', type: 'string', default: 'volume', values: ['volume', 'earcon'] },
+  { path: 'voice.quietHours.volume', env: 'VOICE_QUIET_VOLUME', type: 'integer', default: 10, min: 0, max: 100 },
+  { path: 'retry.maxRetries', env: 'MAX_RETRIES', type: 'integer', default: 3, min: 1, max: 10 },
+  { path: 'retry.retryDelay', env: 'RETRY_DELAY', type: 'integer', default: 2000, min: 500, max: 30000 },
+  { path: 'circuitBreaker.failureThreshold', env: 'CIRCUIT_FAILURE_THRESHOLD', type: 'integer', default: 5, min: 1, max: 100 },
+  { path: 'circuitBreaker.resetTimeout', env: 'CIRCUIT_RESET_TIMEOUT', type: 'integer', default: 60, min: 5, max: 3600 },
+  { path: 'logLevel', env: 'LOG_LEVEL', type: 'string', default: 'info', values: LOG_LEVELS },
+  { path: 'scheduleFile', env: 'SCHEDULE_FILE', type: 'string', default: 'schedule.json' },
+  { path: 'presetsFile', env: 'PRESETS_FILE', type: 'string', default: 'presets.json' },
+  { path: 'thermostat.strategy', env: 'THERMOSTAT_STRATEGY', type: 'string', default: 'power', values: ['power', 'nudge'] },
+  { path: 'thermostat.hysteresis', env: 'THERMOSTAT_HYSTERESIS', type: 'number', default: 0.5, min: 0.1, max: 5 },
+  { path: 'thermostat.minOnTime', env: 'THERMOSTAT_MIN_ON_TIME', type: 'integer', default: 10, min: 0, max: 120 },
+  { path: 'thermostat.minOffTime', env: 'THERMOSTAT_MIN_OFF_TIME', type: 'integer', default: 5, min: 0, max: 120 },
+  { path: 'thermostat.pollInterval', env: 'THERMOSTAT_POLL_INTERVAL', type: 'integer', default: 60, min: 30, max: 3600 },
+  { path: 'history.dir', env: 'HISTORY_DIR', type: 'string', default: 'history' },
+  { path: 'history.sampleInterval', env: 'HISTORY_SAMPLE_INTERVAL', type: 'integer', default: 300, min: 60, max: 3600, orZero: true },
+  { path: 'history.retentionDays', env: 'HISTORY_RETENTION_DAYS', type: 'integer', default: 30, min: 1, max: 365 },
+  { path: 'monitor.pollInterval', env: 'STATE_POLL_INTERVAL', type: 'integer', default: 60, min: 15, max: 3600, orZero: true },
+  { path: 'monitor.notifications', env: 'STATE_NOTIFICATIONS', type: 'string', default: 'voice', values: ['voice', 'log', 'off'] },
+  { path: 'http.port', env: 'HTTP_PORT', type: 'integer', min: 1, max: 65535 },
+  { path: 'http.token', env: 'HTTP_TOKEN', type: 'string' },
+  { path: 'mqtt.url', env: 'MQTT_URL', type: 'string' },
+  { path: 'mqtt.username', env: 'MQTT_USERNAME', type: 'string' },
+  { path: 'mqtt.password', env: 'MQTT_PASSWORD', type: 'string' },
+  { path: 'mqtt.topicPrefix', env: 'MQTT_TOPIC_PREFIX', type: 'string', default: 'ac-controller' },
+  { path: 'mqtt.discovery', env: 'MQTT_DISCOVERY', type: 'boolean', default: true },
+  { path: 'mqtt.discoveryPrefix', env: 'MQTT_DISCOVERY_PREFIX', type: 'string', default: 'homeassistant' },
+  { path: 'mqtt.publishInterval', env: 'MQTT_PUBLISH_INTERVAL', type: 'integer', default: 60, min: 15, max: 3600 },
+];
+
+// Settings with a shape of their own, validated separately
+const DEVICES_SETTING = { path: 'sensibo.devices', env: 'SENSIBO_DEVICES' };
+const KEYMAP_SETTING = { path: 'keymap', env: 'KEYMAP_FILE', default: 'keymap.json' };
+const VOICES_SETTING = { path: 'voice.voices', env: 'VOICE_NAMES' };
+const QUIET_HOURS_SETTING = { path: 'voice.quietHours.windows', env: 'VOICE_QUIET_HOURS' };
+const MESSAGES_SETTING = { path: 'messages' }; // Config file only
+
+const KNOWN_PATHS = [
+  ...SETTINGS.map(setting => setting.path), DEVICES_SETTING.path, KEYMAP_SETTING.path, VOICES_SETTING.path,
+  QUIET_HOURS_SETTING.path, MESSAGES_SETTING.path,
+];
+
+// Settings only read at startup; a reload that changes them logs that a restart is needed
+const RESTART_SETTINGS: Record<string, (config: AppConfig) => unknown> = {
+  'sensibo.apiKey': config => config.apiKey,
+  'sensibo.apiUrl': config => config.apiUrl,
+  'sensibo.devices': config => config.devices,
+  'sensibo.activeDevice': config => config.deviceId,
+  'voice.backend': config => config.voiceBackend,
+  'voice.locale': config => config.locale, // The voice of espeak and spd-say follows it
+  'voice.voices': config => config.voices,
+  'scheduleFile': config => config.scheduleFile,
+  'presetsFile': config => config.presetsFile,
+  'history.dir': config => config.history.dir,
+  'history.sampleInterval': config => config.history.sampleInterval,
+  'monitor.pollInterval': config => config.monitor.pollInterval,
+  'http': config => config.http,
+  'mqtt': config => config.mqtt,
+};
+
+// Parses "Living Room=abc123,Bedroom=def456" (names are optional)
+function parseDeviceList(value: string, label: string, errors: string[]): DeviceConfig[] {
+  const devices: DeviceConfig[] = [];
+  value.split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const separator = entry.lastIndexOf('=');
+    const name = separator >= 0 ? entry.slice(0, separator).trim() : undefined;
+    const id = (separator >= 0 ? entry.slice(separator + 1) : entry).trim();
+    if (!id || name === '') {
+      errors.push(`${label} entry "${entry}" must be "name=id" or "id"`);
+    } else {
+      devices.push({ id, name });
+    }
+  });
+  return devices;
+}
+
+// Parses "sapi=Microsoft Zira Desktop,espeak-ng=en-us"
+function parseVoiceList(value: string, label: string, errors: string[]): Record<string, string> {
+  const voices: Record<string, string> = {};
+  value.split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const separator = entry.indexOf('=');
+    if (separator <= 0) {
+      errors.push(`${label} entry "${entry}" must be "backend=voice"`);
+    } else {
+      voices[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+    }
+  });
+  return voices;
+}
+
+function validateVoices(raw: unknown, label: string, errors: string[]): VoiceNames {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    errors.push(`${label} must be an object of backend names and voices`);
+    return {};
+  }
+
+  const voices: VoiceNames = {};
+  Object.entries(raw).forEach(([backend, voice]) => {
+    if (!VOICE_BACKENDS.includes(backend as VoiceBackendName)) {
+      errors.push(`${label}.${backend} must be one of: ${VOICE_BACKENDS.join(', ')}`);
+    } else if (typeof voice !== 'string' || voice.trim() === '') {
+      errors.push(`${label}.${backend} must be a voice name`);
+    } else {
+      voices[backend as VoiceBackendName] = voice.trim();
+    }
+  });
+  return voices;
+}
+
+// Windows such as "22:00-07:00", in minutes since midnight; 24:00 may end a window
+function validateQuietWindows(raw: unknown, label: string, errors: string[]): QuietHoursConfig['windows'] {
+  if (!Array.isArray(raw)) {
+    errors.push(`${label} must be an array of "HH:MM-HH:MM" windows`);
+    return [];
+  }
+
+  const toMinutes = (hours: string, minutes: string) => parseInt(hours, 10) * 60 + parseInt(minutes, 10);
+  const windows: QuietHoursConfig['windows'] = [];
+  raw.forEach((entry, index) => {
+    const match = typeof entry === 'string' ? /^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/.exec(entry.trim()) : null;
+    const start = match ? toMinutes(match[1], match[2]) : NaN;
+    const end = match ? toMinutes(match[3], match[4]) : NaN;
+    const valid = match && parseInt(match[2], 10) < 60 && parseInt(match[4], 10) < 60 &&
+      start < 24 * 60 && end <= 24 * 60 && start !== end;
+    if (!valid) {
+      errors.push(`${label}[${index}] must be a window such as "22:00-07:00"`);
+    } else {
+      windows.push({ start, end });
+    }
+  });
+  return windows;
+}
+
+function validateDevices(raw: unknown, label: string, errors: string[]): DeviceConfig[] {
+  if (!Array.isArray(raw)) {
+    errors.push(`${label} must be an array of { "id", "name" } objects`);
+    return [];
+  }
+
+  const devices: DeviceConfig[] = [];
+  raw.forEach((entry, index) => {
+    const { id, name, ...rest } = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<string, unknown>;
+    if (typeof id !== 'string' || id.trim() === '') {
+      errors.push(`${label}[${index}].id must be a device id`);
+      return;
+    }
+    if (name !== undefined && (typeof name !== 'string' || name.trim() === '')) {
+      errors.push(`${label}[${index}].name must be a non-empty string`);
+      return;
+    }
+    Object.keys(rest).forEach(key => errors.push(`${label}[${index}].${key} is not a supported setting`));
+    devices.push({ id: id.trim(), name: typeof name === 'string' ? name.trim() : undefined });
+  });
+
+  devices.forEach((device, index) => {
+    if (devices.findIndex(other => other.id === device.id || (device.name && other.name === device.name)) < index) {
+      errors.push(`${label} contains a duplicate device "${device.name ?? device.id}"`);
+    }
+  });
+  return devices;
+}
+
+function lookup(data: Record<string, unknown>, settingPath: string): unknown {
+  return settingPath.split('.').reduce<unknown>(
+    (node, key) => typeof node === 'object' && node !== null ? (node as Record<string, unknown>)[key] : undefined,
+    data
+  );
+}
+
+function assign(data: Record<string, unknown>, settingPath: string, value: unknown): void {
+  const keys = settingPath.split('.');
+  const last = keys.pop()!;
+  let node = data;
+  keys.forEach(key => {
+    node[key] = node[key] ?? {};
+    node = node[key] as Record<string, unknown>;
+  });
+  node[last] = value;
+}
+
+// Typed value of an environment variable, or the raw string when it doesn't parse
+function parseEnvValue(setting: Setting, value: string): unknown {
+  if (setting.type === 'boolean') {
+    return value === 'true' ? true : value === 'false' ? false : value;
+  }
+  if (setting.type === 'integer' || setting.type === 'number') {
+    const number = Number(value);
+    return value.trim() !== '' && !isNaN(number) ? number : value;
+  }
+  return value;
+}
+
+function checkValue(setting: Setting, value: unknown, label: string, errors: string[]): void {
+  if (setting.values) {
+    if (!setting.values.includes(value as string)) {
+      errors.push(`${label} must be one of: ${setting.values.join(', ')}`);
+    }
+    return;
+  }
+
+  switch (setting.type) {
+    case 'string':
+      if (typeof value !== 'string') errors.push(`${label} must be a string`);
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') errors.push(`${label} must be true or false`);
+      break;
+    case 'integer':
+    case 'number': {
+      const valid = typeof value === 'number' && (setting.type === 'number' || Number.isInteger(value)) &&
+        ((setting.orZero && value === 0) || (value >= setting.min! && value <= setting.max!));
+      if (!valid) {
+        const range = setting.orZero ? `0 (disabled) or ${setting.min}–${setting.max}` : `${setting.min}–${setting.max}`;
+        const wholeNumber = setting.type === 'integer' && typeof value === 'number' && !Number.isInteger(value);
+        errors.push(`${label} must be ${wholeNumber ? 'a whole number, ' : ''}${range}`);
+      }
+      break;
+    }
+  }
+}
+
+// Reports keys in the file that aren't settings, e.g. a misspelled "voice.volum"
+function checkUnknownKeys(data: Record<string, unknown>, prefix: string, errors: string[]): void {
+  Object.entries(data).forEach(([key, value]) => {
+    const keyPath = prefix ? `${prefix}.${key}` : key;
+    if (KNOWN_PATHS.includes(keyPath)) {
+      return;
+    }
+    if (KNOWN_PATHS.some(known => known.startsWith(`${keyPath}.`))) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${keyPath} must be an object`);
+      } else {
+        checkUnknownKeys(value as Record<string, unknown>, keyPath, errors);
+      }
+      return;
+    }
+    errors.push(`${keyPath} is not a supported setting`);
+  });
+}
+
+function readConfigFile(filePath: string): Record<string, unknown> {
+  const resolved = path.resolve(filePath);
+  if (!fs.existsSync(resolved)) {
+    return {};
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(resolved, 'utf-8'));
+  } catch (error) {
+    throw new ConfigurationError([`${filePath}: invalid JSON (${error instanceof Error ? error.message : error})`]);
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ConfigurationError([`${filePath}: config file must be a JSON object`]);
+  }
+  return raw as Record<string, unknown>;
+}
+
+/**
+ * Reads the config file (optional) and validates every setting. Environment
+ * variables (including those from .env) override the file. Errors name the
+ * setting's path, plus the variable when the value came from the
+ * environment, e.g. "voice.volume (VOICE_VOLUME) must be 0–100".
+ */
+export function loadConfig(filePath: string = DEFAULT_CONFIG_FILE): AppConfig {
+  const data = readConfigFile(filePath);
+  const errors: string[] = [];
+  checkUnknownKeys(data, '', errors);
+
+  const values = new Map<string, unknown>();
+  SETTINGS.forEach(setting => {
+    const envValue = process.env[setting.env];
+    const fromEnv = envValue !== undefined && envValue !== '';
+    const value = fromEnv ? parseEnvValue(setting, envValue) : lookup(data, setting.path) ?? setting.default;
+    const label = fromEnv ? `${setting.path} (${setting.env})` : setting.path;
+
+    if (value === undefined) {
+      if (setting.required) errors.push(`${label} is required`);
+      return;
+    }
+    checkValue(setting, value, label, errors);
+    values.set(setting.path, value);
+  });
+  const get = <T>(settingPath: string) => values.get(settingPath) as T;
+
+  if (get<number>('temperature.min') >= get<number>('temperature.max')) {
+    errors.push('temperature.min must be less than temperature.max');
+  }
+
+  // Devices; an active device missing from the list is controlled too
+  const devicesEnv = process.env[DEVICES_SETTING.env];
+  const devices = devicesEnv
+    ? validateDevices(
+      parseDeviceList(devicesEnv, `${DEVICES_SETTING.path} (${DEVICES_SETTING.env})`, errors),
+      `${DEVICES_SETTING.path} (${DEVICES_SETTING.env})`,
+      errors
+    )
+    : validateDevices(lookup(data, DEVICES_SETTING.path) ?? [], DEVICES_SETTING.path, errors);
+  const deviceId = get<string | undefined>('sensibo.activeDevice');
+  if (deviceId && !devices.some(device => device.id === deviceId)) {
+    devices.unshift({ id: deviceId });
+  }
+
+  // Keymap: a file name, or the bindings themselves
+  let keymap: Keymap | undefined;
+  const keymapValue = process.env[KEYMAP_SETTING.env] || (lookup(data, KEYMAP_SETTING.path) ?? KEYMAP_SETTING.default);
+  const keymapSource = typeof keymapValue === 'string' ? keymapValue : `${filePath}: keymap`;
+  try {
+    if (typeof keymapValue === 'string') {
+      keymap = loadKeymap(keymapValue);
+    } else {
+      keymap = validateKeymap(keymapValue, keymapSource);
+    }
+  } catch (error) {
+    if (!(error instanceof ConfigurationError)) throw error;
+    errors.push(...error.errors);
+  }
+
+  // Voices per speech backend, and templates replacing those of the locale
+  const voicesEnv = process.env[VOICES_SETTING.env];
+  const voicesLabel = voicesEnv ? `${VOICES_SETTING.path} (${VOICES_SETTING.env})` : VOICES_SETTING.path;
+  const voices = validateVoices(
+    voicesEnv ? parseVoiceList(voicesEnv, voicesLabel, errors) : lookup(data, VOICES_SETTING.path) ?? {},
+    voicesLabel,
+    errors
+  );
+  const quietHoursEnv = process.env[QUIET_HOURS_SETTING.env];
+  const quietWindows = quietHoursEnv
+    ? validateQuietWindows(
+      quietHoursEnv.split(',').map(entry => entry.trim()).filter(Boolean),
+      `${QUIET_HOURS_SETTING.path} (${QUIET_HOURS_SETTING.env})`,
+      errors
+    )
+    : validateQuietWindows(lookup(data, QUIET_HOURS_SETTING.path) ?? [], QUIET_HOURS_SETTING.path, errors);
+  const messages = validateMessageOverrides(lookup(data, MESSAGES_SETTING.path) ?? {}, MESSAGES_SETTING.path, errors);
+
+  // Optional local HTTP control API
+  const httpPort = get<number | undefined>('http.port');
+  if (httpPort !== undefined && (get<string | undefined>('http.token') ?? '').length < 16) {
+    errors.push('http.token must be at least 16 characters when http.port is set');
+  }
+
+  // Optional MQTT bridge
+  const mqttUrl = get<string | undefined>('mqtt.url');
+  if (mqttUrl !== undefined) {
+    if (!/^(mqtts?|wss?):\/\/[^/]/.test(mqttUrl)) {
+      errors.push('mqtt.url must be an mqtt://, mqtts://, ws:// or wss:// URL');
+    }
+    if (!/^[^/+#]+(\/[^/+#]+)*$/.test(get<string>('mqtt.topicPrefix'))) {
+      errors.push('mqtt.topicPrefix must be a topic without wildcards or leading and trailing slashes');
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigurationError(errors);
+  }
+
+  const monitorPollInterval = get<number>('monitor.pollInterval');
+  return {
+    apiKey: get('sensibo.apiKey'),
+    devices,
+    deviceId,
+    apiUrl: get('sensibo.apiUrl'),
+    minTemp: get('temperature.min'),
+    maxTemp: get('temperature.max'),
+    voiceVolume: get('voice.volume'),
+    voiceBackend: get('voice.backend'),
+    voices,
+    locale: get('voice.locale'),
+    messages,
+    verbosity: get('voice.verbosity'),
+    quietHours: {
+      windows: quietWindows,
+      mode: get('voice.quietHours.mode'),
+      volume: get('voice.quietHours.volume'),
+    },
+    displayUnit: get('temperature.displayUnit'),
+    maxRetries: get('retry.maxRetries'),
+    retryDelay: get('retry.retryDelay'),
+    // Polling keeps the cache fresh, so it can stand in for a read for one interval
+    stateCacheTtl: monitorPollInterval,
+    circuitBreaker: {
+      failureThreshold: get('circuitBreaker.failureThreshold'),
+      resetTimeout: get('circuitBreaker.resetTimeout'),
+    },
+    logLevel: get('logLevel'),
+    keymap: keymap!,
+    keymapSource,
+    keymapFile: typeof keymapValue === 'string' ? keymapValue : null,
+    scheduleFile: get('scheduleFile'),
+    presetsFile: get('presetsFile'),
+    thermostat: {
+      strategy: get('thermostat.strategy'),
+      hysteresis: get('thermostat.hysteresis'),
+      minOnTime: get('thermostat.minOnTime'),
+      minOffTime: get('thermostat.minOffTime'),
+      pollInterval: get('thermostat.pollInterval'),
+    },
+    history: {
+      dir: get('history.dir'),
+      sampleInterval: get('history.sampleInterval'),
+      retentionDays: get('history.retentionDays'),
+    },
+    monitor: {
+      pollInterval: monitorPollInterval,
+      notifications: get('monitor.notifications'),
+    },
+    http: httpPort !== undefined ? { port: httpPort, token: get('http.token') } : undefined,
+    mqtt: mqttUrl !== undefined ? {
+      url: mqttUrl,
+      username: get('mqtt.username'),
+      password: get('mqtt.password'),
+      topicPrefix: get('mqtt.topicPrefix'),
+      discoveryPrefix: get('mqtt.discovery') ? get('mqtt.discoveryPrefix') : null,
+      publishInterval: get('mqtt.publishInterval'),
+    } : undefined,
+  };
+}
+
+/**
+ * Copies the settings that are read on every use from next into the running
+ * config, in one synchronous step. Returns the paths of changed settings
+ * that only take effect after a restart.
+ */
+export function applyLiveSettings(config: AppConfig, next: AppConfig): string[] {
+  const restartRequired = Object.entries(RESTART_SETTINGS)
+    .filter(([, get]) => JSON.stringify(get(config)) !== JSON.stringify(get(next)))
+    .map(([settingPath]) => settingPath);
+
+  config.minTemp = next.minTemp;
+  config.maxTemp = next.maxTemp;
+  config.displayUnit = next.displayUnit;
+  config.voiceVolume = next.voiceVolume;
+  config.verbosity = next.verbosity;
+  config.quietHours = next.quietHours;
+  config.maxRetries = next.maxRetries;
+  config.retryDelay = next.retryDelay;
+  config.logLevel = next.logLevel;
+  config.keymap = next.keymap;
+  config.keymapSource = next.keymapSource;
+  config.keymapFile = next.keymapFile;
+  config.messages = next.messages;
+  // Nested objects are shared with the components using them, so update them in place
+  Object.assign(config.circuitBreaker, next.circuitBreaker);
+  Object.assign(config.thermostat, next.thermostat);
+  config.history.retentionDays = next.history.retentionDays;
+  config.monitor.notifications = next.monitor.notifications;
+
+  return restartRequired;
+}
+
+/**
+ * Moves the settings from an existing .env file into a new config file.
+ * Runs only while the config file doesn't exist. The original is kept as
+ * .env.migrated; variables that aren't settings stay in .env.
+ */
+export function migrateEnvFile(configFile: string, logger: winston.Logger, envFile: string = '.env'): void {
+  const configPath = path.resolve(configFile);
+  const envPath = path.resolve(envFile);
+  if (fs.existsSync(configPath) || !fs.existsSync(envPath)) {
+    return;
+  }
+
+  const env = dotenv.parse(fs.readFileSync(envPath, 'utf-8'));
+  const data: Record<string, unknown> = {};
+  const remaining: string[] = [];
+  Object.entries(env).forEach(([name, value]) => {
+    const setting = SETTINGS.find(candidate => candidate.env === name);
+    if (setting) {
+      if (value !== '') assign(data, setting.path, parseEnvValue(setting, value));
+    } else if (name === DEVICES_SETTING.env) {
+      const errors: string[] = [];
+      const devices = parseDeviceList(value, name, errors);
+      // Left as text when it doesn't parse, so validation reports it
+      assign(data, DEVICES_SETTING.path, errors.length > 0 ? value : devices);
+    } else if (name === KEYMAP_SETTING.env) {
+      assign(data, KEYMAP_SETTING.path, value);
+    } else if (name === VOICES_SETTING.env) {
+      const errors: string[] = [];
+      const voices = parseVoiceList(value, name, errors);
+      assign(data, VOICES_SETTING.path, errors.length > 0 ? value : voices);
+    } else if (name === QUIET_HOURS_SETTING.env) {
+      assign(data, QUIET_HOURS_SETTING.path, value.split(',').map(entry => entry.trim()).filter(Boolean));
+    } else {
+      remaining.push(`${name}=${JSON.stringify(value)}`);
+    }
+  });
+
+  if (Object.keys(data).length === 0) {
+    return;
+  }
+
+  // The file holds the API key and tokens
+  fs.writeFileSync(configPath, JSON.stringify(data, null, 2) + '\n', { mode: 0o600 });
+  fs.renameSync(envPath, `${envPath}.migrated`);
+  if (remaining.length > 0) {
+    fs.writeFileSync(envPath, remaining.join('\n') + '\n');
+  }
+  logger.info(`Migrated settings from ${envFile} to ${configFile}; the original is kept as ${envFile}.migrated`);
+}
@@ -0,0 +1,93 @@
+import winston from 'winston';
+import { SensiboAPI } from './sensibo-api.js';
+import { Device, DeviceConfig } from './types.js';
+
+export class DeviceManager {
+  private logger: winston.Logger;
+  private devices: Device[] = [];
+  private activeIndex = 0;
+
+  constructor(
+    private sensiboAPI: SensiboAPI,
+    private configured: DeviceConfig[],
+    private initialDeviceId: string | undefined,
+    logger: winston.Logger
+  ) {
+    this.logger = logger;
+  }
+
+  /**
+   * Resolves the controlled devices from the config and the devices found on
+   * the account. Configured devices keep their order and fall back to the
+   * Sensibo room name; with nothing configured, every discovered device is used.
+   */
+  initialize(discovered: Device[] | null): void {
+    if (discovered) {
+      this.logger.info(`Found ${discovered.length} device(s) on the account:`);
+      discovered.forEach(device => this.logger.info(`  ${device.name} (${device.id})`));
+    }
+
+    if (this.configured.length > 0) {
+      this.devices = this.configured.map(config => {
+        const match = discovered?.find(device => device.id === config.id);
+        if (discovered && !match) {
+          this.logger.warn(`Configured device ${config.id} was not found on the account`);
+        }
+        return { id: config.id, name: config.name || match?.name || config.id };
+      });
+    } else {
+      this.devices = discovered ?? [];
+    }
+
+    if (this.devices.length === 0) {
+      throw new Error('No Sensibo devices available');
+    }
+
+    const initialIndex = this.devices.findIndex(device => device.id === this.initialDeviceId);
+    this.activate(initialIndex >= 0 ? initialIndex : 0);
+  }
+
+  getDevices(): Device[] {
+    return [...this.devices];
+  }
+
+  getActiveDevice(): Device {
+    return this.devices[this.activeIndex];
+  }
+
+  hasMultipleDevices(): boolean {
+    return this.devices.length > 1;
+  }
+
+  cycle(): Device {
+    return this.activate((this.activeIndex + 1) % this.devices.length);
+  }
+
+  // Selects a device by its 1-based position, as typed on the keyboard
+  select(position: number): Device | null {
+    if (position < 1 || position > this.devices.length) {
+      return null;
+    }
+    return this.activate(position - 1);
+  }
+
+  // Finds a device by name (case-insensitive) or ID
+  find(nameOrId: string): Device | null {
+    return this.devices.find(device =>
+      device.id === nameOrId || device.name.toLowerCase() === nameOrId.toLowerCase()
+    ) ?? null;
+  }
+
+  selectByName(nameOrId: string): Device | null {
+    const device = this.find(nameOrId);
+    return device ? this.activate(this.devices.indexOf(device)) : null;
+  }
+
+  private activate(index: number): Device {
+    this.activeIndex = index;
+    const device = this.devices[index];
+    this.sensiboAPI.setDeviceId(device.id);
+    this.logger.info(`Active device: ${device.name} (${device.id})`);
+    return device;
+  }
+}
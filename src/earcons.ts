@@ -0,0 +1,60 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AnnouncementKind } from './types.js';
+
+const SAMPLE_RATE = 22050;
+const FADE_SECONDS = 0.01; // Softens the start and end of each note, which would otherwise click
+
+// Notes (Hz, seconds) of each tone: a rising pair for news, one high note for done, a falling pair for errors
+const TONES: Record<AnnouncementKind, Array<[number, number]>> = {
+  error: [[440, 0.15], [330, 0.2]],
+  confirmation: [[880, 0.12]],
+  notification: [[660, 0.1], [880, 0.12]],
+};
+
+// 16-bit mono PCM WAV of the tone, with the volume (0-100) in its amplitude
+function renderWav(kind: AnnouncementKind, volume: number): Buffer {
+  const samples: number[] = [];
+  const amplitude = 0.8 * 32767 * volume / 100;
+  TONES[kind].forEach(([frequency, seconds]) => {
+    const count = Math.round(seconds * SAMPLE_RATE);
+    const fade = FADE_SECONDS * SAMPLE_RATE;
+    for (let i = 0; i < count; i++) {
+      const envelope = Math.min(1, i / fade, (count - i) / fade);
+      samples.push(Math.round(amplitude * envelope * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE)));
+    }
+  });
+
+  const data = samples.length * 2;
+  const wav = Buffer.alloc(44 + data);
+  wav.write('RIFF', 0);
+  wav.writeUInt32LE(36 + data, 4);
+  wav.write('WAVE', 8);
+  wav.write('fmt ', 12);
+  wav.writeUInt32LE(16, 16); // Format chunk size
+  wav.writeUInt16LE(1, 20); // PCM
+  wav.writeUInt16LE(1, 22); // Mono
+  wav.writeUInt32LE(SAMPLE_RATE, 24);
+  wav.writeUInt32LE(SAMPLE_RATE * 2, 28); // Bytes per second
+  wav.writeUInt16LE(2, 32); // Bytes per sample
+  wav.writeUInt16LE(16, 34); // Bits per sample
+  wav.write('data', 36);
+  wav.writeUInt32LE(data, 40);
+  samples.forEach((sample, index) => wav.writeInt16LE(sample, 44 + index * 2));
+  return wav;
+}
+
+/**
+ * Path of the WAV file with the tone played instead of an announcement of
+ * the given kind during quiet hours. Players take a file, so each tone is
+ * written once per volume to the temp directory.
+ */
+export function earconFile(kind: AnnouncementKind, volume: number): string {
+  const file = path.join(os.tmpdir(), 'ac-controller-earcons', `${kind}-${volume}.wav`);
+  if (!fs.existsSync(file)) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, renderWav(kind, volume));
+  }
+  return file;
+}
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { HistorySample, HistoryStore, toCsv } from './history.js';
+import { silentLogger } from './test-support.js';
+
+// A sample for the device taken the given number of minutes ago
+function sample(minutesAgo: number, roomTemperature: number, on = true, deviceId = 'abc'): HistorySample {
+  return {
+    time: new Date(Date.now() - minutesAgo * 60000).toISOString(),
+    deviceId,
+    deviceName: deviceId === 'abc' ? 'Living Room' : 'Bedroom',
+    roomTemperature,
+    humidity: 50,
+    on,
+    mode: 'cool',
+    targetTemperature: 22,
+    temperatureUnit: 'C',
+    fanLevel: 'auto',
+  };
+}
+
+describe('HistoryStore', () => {
+  let dir: string;
+  let store: HistoryStore;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'history-test-'));
+    store = new HistoryStore({ dir, sampleInterval: 60, retentionDays: 7 }, silentLogger);
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('summarizes the samples of each device', () => {
+    [sample(30, 26), sample(20, 25, false), sample(10, 24), sample(5, 22, true, 'def')].forEach(s => store.append(s));
+
+    const summaries = store.summarize(1);
+
+    assert.equal(summaries.length, 2);
+    const living = summaries.find(summary => summary.deviceId === 'abc')!;
+    assert.equal(living.samples, 3);
+    assert.deepEqual(living.temperature, { min: 24, max: 26, avg: 25 });
+    assert.equal(living.onPercent, 67);
+    assert.deepEqual(store.summarize(1, 'def').map(summary => summary.samples), [1]);
+  });
+
+  it('reports a trend only once the samples span ten minutes', () => {
+    store.append(sample(5, 26));
+    store.append(sample(0, 25.5));
+    assert.deepEqual(store.trend('abc', 30), { roomTemperature: 25.5, humidity: 50, change: null, minutes: 5 });
+
+    store.append(sample(20, 27));
+    assert.equal(store.trend('abc', 30)?.change, -1.5);
+    assert.equal(store.trend('def', 30), null);
+  });
+
+  it('deletes files older than the retention period', () => {
+    fs.writeFileSync(path.join(dir, 'history-2000-01-01.jsonl'), '');
+    store.append(sample(0, 25));
+
+    assert.deepEqual(fs.readdirSync(dir), [`history-${new Date().toISOString().slice(0, 10)}.jsonl`]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes fields with commas', () => {
+    const csv = toCsv([{ ...sample(0, 25), time: '2024-01-01T00:00:00.000Z', deviceName: 'Kids, upstairs' }]);
+
+    assert.equal(csv, [
+      'time,deviceId,deviceName,roomTemperature,humidity,on,mode,targetTemperature,temperatureUnit,fanLevel',
+      '2024-01-01T00:00:00.000Z,abc,"Kids, upstairs",25,50,true,cool,22,C,auto',
+      '',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,283 @@
+import fs from 'fs';
+import path from 'path';
+import winston from 'winston';
+import { SensiboAPI } from './sensibo-api.js';
+import { ACMode, ACState, Device, FanLevel, HistoryConfig, Measurement, TemperatureUnit } from './types.js';
+
+// One line of a history file
+export interface HistorySample {
+  time: string; // ISO timestamp
+  deviceId: string;
+  deviceName: string;
+  roomTemperature: number; // Celsius
+  humidity: number; // Percent
+  on: boolean;
+  mode: ACMode;
+  targetTemperature: number; // In temperatureUnit
+  temperatureUnit: TemperatureUnit;
+  fanLevel: FanLevel;
+}
+
+export interface HistoryStats {
+  min: number;
+  max: number;
+  avg: number;
+}
+
+export interface HistorySummary {
+  deviceId: string;
+  deviceName: string;
+  from: string;
+  to: string;
+  samples: number;
+  temperature: HistoryStats; // Celsius
+  humidity: HistoryStats;
+  onPercent: number; // Share of samples with the unit on
+}
+
+export interface Trend {
+  roomTemperature: number; // Celsius, latest sample
+  humidity: number;
+  change: number | null; // Celsius over the window, null without enough history
+  minutes: number; // Length of the window the change covers
+}
+
+const FILE_PATTERN = /^history-(\d{4}-\d{2}-\d{2})\.jsonl$/;
+const CSV_COLUMNS: Array<keyof HistorySample> = [
+  'time', 'deviceId', 'deviceName', 'roomTemperature', 'humidity',
+  'on', 'mode', 'targetTemperature', 'temperatureUnit', 'fanLevel',
+];
+// A trend needs samples spanning at least this long
+const MIN_TREND_MINUTES = 10;
+
+function round(value: number, decimals = 1): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function stats(values: number[]): HistoryStats {
+  return {
+    min: Math.min(...values),
+    max: Math.max(...values),
+    avg: round(values.reduce((sum, value) => sum + value, 0) / values.length),
+  };
+}
+
+function csvField(value: unknown): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(samples: HistorySample[]): string {
+  const lines = samples.map(sample => CSV_COLUMNS.map(column => csvField(sample[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...lines].join('\n') + '\n';
+}
+
+/**
+ * Append-only sample store: one JSONL file per UTC day in the history
+ * directory. Files older than the retention period are deleted.
+ */
+export class HistoryStore {
+  private logger: winston.Logger;
+  private lastPrune = '';
+
+  constructor(private config: HistoryConfig, logger: winston.Logger) {
+    this.logger = logger;
+  }
+
+  append(sample: HistorySample): void {
+    const day = sample.time.slice(0, 10);
+    try {
+      fs.mkdirSync(this.config.dir, { recursive: true });
+      fs.appendFileSync(path.join(this.config.dir, `history-${day}.jsonl`), JSON.stringify(sample) + '\n');
+    } catch (error) {
+      this.logger.error(`Failed to write history sample to ${this.config.dir}:`, error);
+      return;
+    }
+
+    if (this.lastPrune !== day) {
+      this.lastPrune = day;
+      this.prune();
+    }
+  }
+
+  // Samples between from and to, oldest first; all devices when deviceId is omitted
+  query(from: Date, to: Date = new Date(), deviceId?: string): HistorySample[] {
+    const firstDay = from.toISOString().slice(0, 10);
+    const lastDay = to.toISOString().slice(0, 10);
+
+    return this.listFiles()
+      .filter(file => file.day >= firstDay && file.day <= lastDay)
+      .flatMap(file => this.readFile(file.name))
+      .filter(sample => {
+        const time = Date.parse(sample.time);
+        return time >= from.getTime() && time <= to.getTime() && (!deviceId || sample.deviceId === deviceId);
+      })
+      .sort((a, b) => Date.parse(a.time) - Date.parse(b.time));
+  }
+
+  // Min/max/avg per device over the last N hours
+  summarize(hours: number, deviceId?: string): HistorySummary[] {
+    const now = new Date();
+    const samples = this.query(new Date(now.getTime() - hours * 3600000), now, deviceId);
+
+    const byDevice = new Map<string, HistorySample[]>();
+    samples.forEach(sample => {
+      byDevice.set(sample.deviceId, [...(byDevice.get(sample.deviceId) || []), sample]);
+    });
+
+    return Array.from(byDevice.values()).map(deviceSamples => {
+      const last = deviceSamples[deviceSamples.length - 1];
+      return {
+        deviceId: last.deviceId,
+        deviceName: last.deviceName,
+        from: deviceSamples[0].time,
+        to: last.time,
+        samples: deviceSamples.length,
+        temperature: stats(deviceSamples.map(sample => sample.roomTemperature)),
+        humidity: stats(deviceSamples.map(sample => sample.humidity)),
+        onPercent: Math.round(100 * deviceSamples.filter(sample => sample.on).length / deviceSamples.length),
+      };
+    });
+  }
+
+  // Change of the room temperature over roughly the last N minutes
+  trend(deviceId: string, minutes: number): Trend | null {
+    const now = new Date();
+    const samples = this.query(new Date(now.getTime() - minutes * 60000), now, deviceId);
+    if (samples.length === 0) {
+      return null;
+    }
+
+    const first = samples[0];
+    const last = samples[samples.length - 1];
+    const span = Math.round((Date.parse(last.time) - Date.parse(first.time)) / 60000);
+    return {
+      roomTemperature: last.roomTemperature,
+      humidity: last.humidity,
+      change: span >= MIN_TREND_MINUTES ? round(last.roomTemperature - first.roomTemperature) : null,
+      minutes: span,
+    };
+  }
+
+  private listFiles(): Array<{ name: string; day: string }> {
+    if (!fs.existsSync(this.config.dir)) {
+      return [];
+    }
+    return fs.readdirSync(this.config.dir)
+      .map(name => ({ name, match: name.match(FILE_PATTERN) }))
+      .filter(entry => entry.match)
+      .map(entry => ({ name: entry.name, day: entry.match![1] }));
+  }
+
+  private readFile(name: string): HistorySample[] {
+    const samples: HistorySample[] = [];
+    let content: string;
+    try {
+      content = fs.readFileSync(path.join(this.config.dir, name), 'utf-8');
+    } catch (error) {
+      this.logger.warn(`Failed to read history file ${name}:`, error);
+      return samples;
+    }
+
+    // A crash mid-write can leave a partial last line; skip anything unparsable
+    content.split('\n').filter(Boolean).forEach(line => {
+      try {
+        samples.push(JSON.parse(line));
+      } catch {
+        this.logger.debug(`Skipping malformed line in history file ${name}`);
+      }
+    });
+    return samples;
+  }
+
+  private prune(): void {
+    const cutoff = new Date(Date.now() - this.config.retentionDays * 86400000).toISOString().slice(0, 10);
+    this.listFiles()
+      .filter(file => file.day < cutoff)
+      .forEach(file => {
+        try {
+          fs.unlinkSync(path.join(this.config.dir, file.name));
+          this.logger.info(`Deleted history file ${file.name}`);
+        } catch (error) {
+          this.logger.warn(`Failed to delete history file ${file.name}:`, error);
+        }
+      });
+  }
+}
+
+/**
+ * Samples room measurements and AC state of every device into the store
+ * at a fixed interval.
+ */
+export class HistoryRecorder {
+  private logger: winston.Logger;
+  private sampleInterval: NodeJS.Timeout | null = null;
+  private sampling = false;
+
+  constructor(
+    private store: HistoryStore,
+    private sensiboAPI: SensiboAPI,
+    private intervalSeconds: number,
+    logger: winston.Logger
+  ) {
+    this.logger = logger;
+  }
+
+  start(getDevices: () => Device[]): void {
+    if (this.intervalSeconds === 0) {
+      this.logger.info('History recording disabled');
+      return;
+    }
+    this.sampleInterval = setInterval(() => this.sampleAll(getDevices()), this.intervalSeconds * 1000);
+    this.sampleAll(getDevices());
+  }
+
+  stop(): void {
+    if (this.sampleInterval) {
+      clearInterval(this.sampleInterval);
+      this.sampleInterval = null;
+    }
+  }
+
+  // Stores a sample from readings the caller already has
+  record(device: Device, state: ACState, measurement: Measurement): HistorySample {
+    const sample: HistorySample = {
+      time: new Date().toISOString(),
+      deviceId: device.id,
+      deviceName: device.name,
+      roomTemperature: measurement.temperature,
+      humidity: measurement.humidity,
+      on: state.on,
+      mode: state.mode,
+      targetTemperature: state.targetTemperature,
+      temperatureUnit: state.temperatureUnit,
+      fanLevel: state.fanLevel,
+    };
+    this.store.append(sample);
+    return sample;
+  }
+
+  private async sampleAll(devices: Device[]): Promise<void> {
+    // Skip if the previous round is still waiting on the API
+    if (this.sampling) return;
+    this.sampling = true;
+
+    try {
+      for (const device of devices) {
+        try {
+          const [state, measurement] = await Promise.all([
+            this.sensiboAPI.getCurrentState(device.id),
+            this.sensiboAPI.getMeasurement(device.id),
+          ]);
+          this.record(device, state, measurement);
+        } catch {
+          // A missed sample is harmless; the next round tries again
+          this.logger.warn(`History sample for ${device.name} failed`);
+        }
+      }
+    } finally {
+      this.sampling = false;
+    }
+  }
+}
@@ -0,0 +1,215 @@
+import http from 'http';
+import crypto from 'crypto';
+import winston from 'winston';
+import {
+  AC_MODES, ACMode, CommandResult, CommandSource, FAN_LEVELS, FanLevel, HttpConfig, StatusReport, SWING_MODES, SwingMode,
+} from './types.js';
+import { HistorySummary } from './history.js';
+
+export interface ControlCommands {
+  getStatus(): Promise<StatusReport | null>;
+  powerOn(source: CommandSource): Promise<CommandResult>;
+  powerOff(source: CommandSource): Promise<CommandResult>;
+  setTemperature(temperature: number, source: CommandSource): Promise<CommandResult>;
+  setMode(mode: ACMode, source: CommandSource): Promise<CommandResult>;
+  setFanLevel(fanLevel: FanLevel, source: CommandSource): Promise<CommandResult>;
+  setSwing(swing: SwingMode, source: CommandSource): Promise<CommandResult>;
+  applyPreset(name: string, source: CommandSource): Promise<CommandResult>;
+  getHistory(hours: number): HistorySummary[];
+  exportHistory(hours: number): string;
+}
+
+const MAX_BODY_SIZE = 4096;
+const MAX_HISTORY_HOURS = 24 * 365;
+
+class HttpError extends Error {
+  constructor(public readonly statusCode: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export class HttpControlServer {
+  private logger: winston.Logger;
+  private server: http.Server | null = null;
+
+  constructor(private config: HttpConfig, private commands: ControlCommands, logger: winston.Logger) {
+    this.logger = logger;
+  }
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const server = http.createServer((req, res) => {
+        this.handleRequest(req, res).catch(error => {
+          const statusCode = error instanceof HttpError ? error.statusCode : 500;
+          if (statusCode === 500) {
+            this.logger.error('HTTP request failed:', error);
+          }
+          this.sendJson(res, statusCode, { error: error instanceof HttpError ? error.message : 'Internal error' });
+        });
+      });
+
+      server.once('error', reject);
+      // Bind to loopback only; the API is not meant to be reachable from the network
+      server.listen(this.config.port, '127.0.0.1', () => {
+        server.off('error', reject);
+        this.server = server;
+        this.logger.info(`HTTP control API listening on http://127.0.0.1:${this.config.port}`);
+        resolve();
+      });
+    });
+  }
+
+  stop(): void {
+    if (this.server) {
+      this.server.close();
+      this.server = null;
+      this.logger.info('HTTP control API stopped');
+    }
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const method = req.method || 'GET';
+    const url = new URL(req.url || '/', 'http://localhost');
+    const pathname = url.pathname;
+    this.logger.debug(`HTTP ${method} ${pathname}`);
+
+    if (!this.isAuthorized(req)) {
+      throw new HttpError(401, 'Missing or invalid token');
+    }
+
+    if (method === 'GET' && pathname === '/status') {
+      const status = await this.commands.getStatus();
+      if (!status) {
+        throw new HttpError(502, 'Get status failed');
+      }
+      this.sendJson(res, 200, status);
+      return;
+    }
+
+    if (method === 'GET' && (pathname === '/history' || pathname === '/history.csv')) {
+      const hours = this.parseHours(url.searchParams.get('hours'));
+      if (pathname === '/history.csv') {
+        this.sendText(res, 200, 'text/csv', this.commands.exportHistory(hours));
+      } else {
+        this.sendJson(res, 200, this.commands.getHistory(hours));
+      }
+      return;
+    }
+
+    if (method !== 'POST') {
+      throw new HttpError(pathname === '/status' ? 405 : 404, 'Not found');
+    }
+
+    switch (pathname) {
+      case '/power/on':
+        return this.sendResult(res, await this.commands.powerOn('http'));
+      case '/power/off':
+        return this.sendResult(res, await this.commands.powerOff('http'));
+      case '/temperature': {
+        const { temperature } = await this.readBody(req);
+        if (typeof temperature !== 'number' || !Number.isInteger(temperature)) {
+          throw new HttpError(400, 'temperature must be an integer');
+        }
+        return this.sendResult(res, await this.commands.setTemperature(temperature, 'http'));
+      }
+      case '/mode': {
+        const { mode } = await this.readBody(req);
+        if (!AC_MODES.includes(mode as ACMode)) {
+          throw new HttpError(400, `mode must be one of: ${AC_MODES.join(', ')}`);
+        }
+        return this.sendResult(res, await this.commands.setMode(mode as ACMode, 'http'));
+      }
+      case '/fan': {
+        const { fanLevel } = await this.readBody(req);
+        if (!FAN_LEVELS.includes(fanLevel as FanLevel)) {
+          throw new HttpError(400, `fanLevel must be one of: ${FAN_LEVELS.join(', ')}`);
+        }
+        return this.sendResult(res, await this.commands.setFanLevel(fanLevel as FanLevel, 'http'));
+      }
+      case '/swing': {
+        const { swing } = await this.readBody(req);
+        if (!SWING_MODES.includes(swing as SwingMode)) {
+          throw new HttpError(400, `swing must be one of: ${SWING_MODES.join(', ')}`);
+        }
+        return this.sendResult(res, await this.commands.setSwing(swing as SwingMode, 'http'));
+      }
+      case '/preset': {
+        const { name } = await this.readBody(req);
+        if (typeof name !== 'string' || name.trim() === '') {
+          throw new HttpError(400, 'name must be a preset name');
+        }
+        return this.sendResult(res, await this.commands.applyPreset(name, 'http'));
+      }
+      default:
+        throw new HttpError(404, 'Not found');
+    }
+  }
+
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    const header = req.headers.authorization || '';
+    const match = header.match(/^Bearer (.+)$/);
+    if (!match) {
+      return false;
+    }
+
+    // Constant-time comparison of token hashes
+    const expected = crypto.createHash('sha256').update(this.config.token).digest();
+    const actual = crypto.createHash('sha256').update(match[1]).digest();
+    return crypto.timingSafeEqual(expected, actual);
+  }
+
+  private parseHours(value: string | null): number {
+    if (value === null) {
+      return 24;
+    }
+    const hours = Number(value);
+    if (!Number.isInteger(hours) || hours < 1 || hours > MAX_HISTORY_HOURS) {
+      throw new HttpError(400, `hours must be an integer between 1 and ${MAX_HISTORY_HOURS}`);
+    }
+    return hours;
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+    return new Promise((resolve, reject) => {
+      let body = '';
+      req.setEncoding('utf-8');
+      req.on('data', (chunk: string) => {
+        body += chunk;
+        if (body.length > MAX_BODY_SIZE) {
+          reject(new HttpError(413, 'Request body too large'));
+          req.destroy();
+        }
+      });
+      req.on('end', () => {
+        try {
+          const parsed = body ? JSON.parse(body) : {};
+          if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+            throw new Error('not an object');
+          }
+          resolve(parsed);
+        } catch {
+          reject(new HttpError(400, 'Request body must be a JSON object'));
+        }
+      });
+      req.on('error', reject);
+    });
+  }
+
+  private sendResult(res: http.ServerResponse, result: CommandResult): void {
+    const statusCode = result.success ? 200 : result.invalid ? 400 : result.superseded ? 409 : 502;
+    this.sendJson(res, statusCode, result);
+  }
+
+  private sendJson(res: http.ServerResponse, statusCode: number, body: unknown): void {
+    this.sendText(res, statusCode, 'application/json', JSON.stringify(body));
+  }
+
+  private sendText(res: http.ServerResponse, statusCode: number, contentType: string, body: string): void {
+    if (res.headersSent) {
+      return;
+    }
+    res.writeHead(statusCode, { 'Content-Type': contentType });
+    res.end(body);
+  }
+}
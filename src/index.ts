@@ -1,71 +1,131 @@
 import dotenv from 'dotenv';
-import winston from 'winston';
-import 'winston-daily-rotate-file';
 import { SensiboAPI } from './sensibo-api.js';
 import { KeyboardListener } from './keyboard-listener.js';
 import { VoiceFeedback } from './voice.js';
-import { AppConfig, ConfigurationError } from './types.js';
-import path from 'path';
-
-// Load environment variables
-dotenv.config();
+import { DeviceManager } from './devices.js';
+import { HttpControlServer, ControlCommands } from './http-server.js';
+import { MqttBridge, MqttCommands } from './mqtt-bridge.js';
+import {
+  ACMode, ACState, ACTimer, AnnouncementKind, AppConfig, CommandResult, CommandSource, ConfigurationError,
+  Device, FanLevel, RemoteCapabilities, StatusReport, SwingMode, TemperatureUnit,
+} from './types.js';
+import { changedPart, convertTemperature, limitsFor, nextValue } from './ac-state.js';
+import { Keymap, describeBinding } from './keymap.js';
+import { applyLiveSettings, DEFAULT_CONFIG_FILE, loadConfig, migrateEnvFile } from './config.js';
+import { ConfigWatcher } from './config-watcher.js';
+import { withRetry } from './retry.js';
+import {
+  supportedFanLevels, supportedModes, supportedSwingModes, supportedTemperatures, UnsupportedStateError,
+} from './capabilities.js';
+import { createLogger } from './logger.js';
+import { createSpeechBackend } from './speech.js';
+import { Scheduler } from './scheduler.js';
+import { Thermostat } from './thermostat.js';
+import { Preset, PresetStore } from './presets.js';
+import { CommandQueue } from './command-queue.js';
+import { StateMonitor } from './state-monitor.js';
+import { diffStates, StateChangedEvent } from './state-cache.js';
+import { HistoryRecorder, HistoryStore, HistorySummary, toCsv } from './history.js';
+import { CommandHistory, revertedState } from './command-history.js';
+import { MessageKey, MessageParams, Messages } from './messages.js';
 
 // Set custom process title for easy identification in Task Manager
 process.title = 'AC Controller';
 
-// Configure daily rotating file transport
-const fileRotateTransport = new winston.transports.DailyRotateFile({
-  filename: path.join(process.cwd(), '.logs', 'ac-controller-%DATE%.log'),
-  datePattern: 'YYYY-MM-DD',
-  maxSize: '20m', // Rotate when file reaches 20MB
-  maxFiles: '14d', // Keep logs for 14 days
-  zippedArchive: true, // Compress rotated files
-});
+// Window for the spoken temperature trend
+const TREND_MINUTES = 30;
 
-// Configure logger
-const logger = winston.createLogger({
-  level: process.env.LOG_LEVEL || 'info',
-  format: winston.format.combine(
-    winston.format.timestamp(),
-    winston.format.errors({ stack: true }),
-    winston.format.json()
-  ),
-  transports: [
-    // Console transport with colorized output
-    new winston.transports.Console({
-      format: winston.format.combine(
-        winston.format.colorize(),
-        winston.format.simple(),
-        winston.format.printf(({ timestamp, level, message, ...args }) => {
-          return `${timestamp} [${level}]: ${message} ${Object.keys(args).length ? JSON.stringify(args, null, 2) : ''}`;
-        })
-      )
-    }),
-    // Daily rotating file transport
-    fileRotateTransport
-  ],
-});
+// Queue keys of the state properties, so a change through MQTT coalesces with the matching hotkey
+const SETTING_KEYS: Record<string, string> = {
+  on: 'power', mode: 'mode', targetTemperature: 'temperature', fanLevel: 'fanLevel', swing: 'swing',
+};
+
+// Settings file; environment variables (and .env) override it
+const configFile = process.env.CONFIG_FILE || DEFAULT_CONFIG_FILE;
 
-class ACController {
+// Configure logger; the level from the config file is applied once it is loaded
+const logger = createLogger(process.env.LOG_LEVEL || 'info');
+
+class ACController implements ControlCommands, MqttCommands {
   private sensiboAPI: SensiboAPI;
+  private deviceManager: DeviceManager;
   private keyboardListener: KeyboardListener;
   private voiceFeedback: VoiceFeedback;
+  private httpServer: HttpControlServer | null = null;
+  private mqttBridge: MqttBridge | null = null;
+  private scheduler: Scheduler;
+  private thermostat: Thermostat;
+  private presets: PresetStore;
+  private historyStore: HistoryStore;
+  private historyRecorder: HistoryRecorder;
+  private commandHistory: CommandHistory;
+  private commandQueue: CommandQueue;
+  private stateMonitor: StateMonitor;
+  private configWatcher: ConfigWatcher;
+  private messages: Messages;
   private config: AppConfig;
 
   constructor() {
     try {
+      // Move an existing .env into the config file, then load what is left of it as overrides
+      migrateEnvFile(configFile, logger);
+      dotenv.config({ quiet: true });
+
       // Validate and initialize configuration
-      this.config = this.validateEnvironment();
+      this.config = loadConfig(configFile);
+      logger.level = this.config.logLevel;
+      this.configWatcher = new ConfigWatcher(configFile, this.config.keymapFile, logger);
+      this.messages = new Messages(this.config.locale, this.config.messages);
       
       // Initialize components
       this.sensiboAPI = new SensiboAPI(this.config, logger);
-      this.keyboardListener = new KeyboardListener(logger);
-      this.voiceFeedback = new VoiceFeedback(logger, this.config.voiceVolume);
+      this.deviceManager = new DeviceManager(this.sensiboAPI, this.config.devices, this.config.deviceId, logger);
+      this.keyboardListener = new KeyboardListener(logger, this.config.keymap);
+      this.voiceFeedback = new VoiceFeedback(
+        logger,
+        createSpeechBackend(this.config.voiceBackend, logger, this.config.voices, this.config.locale),
+        this.messages,
+        this.config.voiceVolume,
+        this.config
+      );
+      this.scheduler = new Scheduler(
+        this.config.scheduleFile,
+        this.config,
+        this.messages,
+        (state, device, description) => this.runScheduled(state, device, description),
+        logger
+      );
+      this.scheduler.load();
+      this.presets = new PresetStore(this.config.presetsFile, this.config, logger);
+      this.presets.load();
+      this.checkPresetBindings(this.config.keymap, this.config.keymapSource);
+      this.thermostat = new Thermostat(
+        this.sensiboAPI,
+        // Not keyed: a thermostat step never replaces a command, nor is replaced by one
+        (name, run) => this.commandQueue.enqueue(name, null, run),
+        this.config.thermostat,
+        this.config,
+        logger
+      );
+      this.commandQueue = new CommandQueue(logger);
+      this.stateMonitor = new StateMonitor(this.sensiboAPI, this.config.monitor.pollInterval, logger);
+      this.historyStore = new HistoryStore(this.config.history, logger);
+      this.historyRecorder = new HistoryRecorder(
+        this.historyStore, this.sensiboAPI, this.config.history.sampleInterval, logger
+      );
+      this.commandHistory = new CommandHistory(this.config.history.dir, logger);
+      this.commandHistory.load();
+      if (this.config.http) {
+        this.httpServer = new HttpControlServer(this.config.http, this, logger);
+      }
+      if (this.config.mqtt) {
+        this.mqttBridge = new MqttBridge(this.config.mqtt, this.config, this.sensiboAPI, this, logger);
+      }
     } catch (error) {
       if (error instanceof ConfigurationError) {
         logger.error('Configuration validation failed:');
         error.errors.forEach(err => logger.error(`  - ${err}`));
-        logger.error('Please check your .env file and fix the configuration errors.');
+        logger.error(`Please check ${configFile}, .env and the keymap, schedule and presets files and fix the configuration errors.`);
       } else {
         logger.error('Failed to initialize AC Controller:', error);
       }
@@ -73,95 +133,114 @@ class ACController {
     }
   }
 
-  private validateEnvironment(): AppConfig {
-    const errors: string[] = [];
-    
-    // Validate required fields
-    if (!process.env.SENSIBO_API_KEY) errors.push('SENSIBO_API_KEY is required');
-    if (!process.env.SENSIBO_DEVICE_ID) errors.push('SENSIBO_DEVICE_ID is required');
-    
-    // Validate numeric fields
-    const minTemp = parseInt(process.env.MIN_TEMP || '16', 10);
-    const maxTemp = parseInt(process.env.MAX_TEMP || '30', 10);
-    const voiceVolume = parseInt(process.env.VOICE_VOLUME || '30', 10);
-    const maxRetries = parseInt(process.env.MAX_RETRIES || '3', 10);
-    const retryDelay = parseInt(process.env.RETRY_DELAY || '2000', 10);
-    
-    if (isNaN(minTemp) || minTemp < 10 || minTemp > 35) {
-      errors.push('MIN_TEMP must be a number between 10 and 35');
-    }
-    if (isNaN(maxTemp) || maxTemp < 15 || maxTemp > 40) {
-      errors.push('MAX_TEMP must be a number between 15 and 40');
-    }
-    if (minTemp >= maxTemp) {
-      errors.push('MIN_TEMP must be less than MAX_TEMP');
-    }
-    if (isNaN(voiceVolume) || voiceVolume < 0 || voiceVolume > 100) {
-      errors.push('VOICE_VOLUME must be a number between 0 and 100');
-    }
-    if (isNaN(maxRetries) || maxRetries < 1 || maxRetries > 10) {
-      errors.push('MAX_RETRIES must be a number between 1 and 10');
-    }
-    if (isNaN(retryDelay) || retryDelay < 500 || retryDelay > 30000) {
-      errors.push('RETRY_DELAY must be a number between 500 and 30000');
-    }
-    
-    if (errors.length > 0) {
-      throw new ConfigurationError(errors);
-    }
-    
-    return {
-      apiKey: process.env.SENSIBO_API_KEY!,
-      deviceId: process.env.SENSIBO_DEVICE_ID!,
-      apiUrl: process.env.SENSIBO_API_URL || 'https://home.sensibo.com/api/v2',
-      minTemp,
-      maxTemp,
-      voiceVolume,
-      maxRetries,
-      retryDelay,
-      logLevel: process.env.LOG_LEVEL || 'info'
-    };
+  private withRetry<T>(operation: () => Promise<T>, operationName: string, signal?: AbortSignal): Promise<T | null> {
+    return withRetry(
+      operation, operationName, this.config, logger, (name, error) => this.voiceFeedback.announceError(error, name), signal
+    );
   }
 
-  private async withRetry<T>(operation: () => Promise<T>, operationName: string): Promise<T | null> {
-    for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
-      try {
-        return await operation();
-      } catch (error) {
-        logger.error(`${operationName} failed (attempt ${attempt}/${this.config.maxRetries}):`, error);
-        
-        if (attempt === this.config.maxRetries) {
-          logger.error(`${operationName} failed after ${this.config.maxRetries} attempts`);
-          await this.voiceFeedback.announceError(`${operationName} failed`);
-          return null;
-        }
-        
-        // Exponential backoff with jitter (base delay * 2^(attempt-1) + random jitter)
-        const backoffDelay = Math.min(
-          this.config.retryDelay * Math.pow(2, attempt - 1) + Math.random() * 1000,
-          10000 // Max 10 seconds
-        );
-        
-        logger.info(`Retrying in ${Math.round(backoffDelay)}ms...`);
-        await new Promise(resolve => setTimeout(resolve, backoffDelay));
+  /**
+   * Runs a command through the queue. Commands are bound to the device that
+   * was active when they were received; those changing the same setting of
+   * the same device coalesce, and only the last one is applied and announced.
+   */
+  private queued(
+    operationName: string,
+    setting: string | null,
+    command: (device: Device, signal: AbortSignal) => Promise<CommandResult>,
+    source: CommandSource = 'hotkey'
+  ): Promise<CommandResult> {
+    const device = this.deviceManager.getActiveDevice();
+    return this.queuedFor(device, operationName, setting, command, source);
+  }
+
+  // Same as queued(), for a given device
+  private queuedFor(
+    device: Device,
+    operationName: string,
+    setting: string | null,
+    command: (device: Device, signal: AbortSignal) => Promise<CommandResult>,
+    source: CommandSource = 'hotkey'
+  ): Promise<CommandResult> {
+    const key = setting ? `${device.id}:${setting}` : null;
+    return this.commandQueue
+      .enqueue(operationName, key, signal => this.recorded(operationName, source, () => command(device, signal)))
+      .then(result => result ?? {
+        success: false, message: this.t('operation.superseded', { operation: operationName }), superseded: true,
+      });
+  }
+
+  /**
+   * Runs a command and records the state changes it made in the command
+   * history, one record per device, with the state before and after. The
+   * changes are taken from the state cache, so a command that left the state
+   * as it was records nothing.
+   */
+  private async recorded<T>(operationName: string, source: CommandSource, run: () => Promise<T>, reverts?: number): Promise<T> {
+    const changes = new Map<string, { before: ACState; after: ACState }>();
+    const onChange = ({ deviceId, previous, current, source: changeSource }: StateChangedEvent) => {
+      if (changeSource === 'controller') {
+        changes.set(deviceId, { before: changes.get(deviceId)?.before ?? previous, after: current });
       }
+    };
+
+    this.sensiboAPI.stateCache.on('stateChanged', onChange);
+    try {
+      return await run();
+    } finally {
+      this.sensiboAPI.stateCache.off('stateChanged', onChange);
+      changes.forEach(({ before, after }, deviceId) => {
+        if (Object.keys(diffStates(before, after)).length > 0) {
+          const deviceName = this.deviceManager.find(deviceId)?.name ?? deviceId;
+          this.commandHistory.record({ command: operationName, source, deviceId, deviceName, before, after, reverts });
+        }
+      });
+    }
+  }
+
+  // Text in the configured locale
+  private t(key: MessageKey, params?: MessageParams): string {
+    return this.messages.format(key, params);
+  }
+
+  // "<operation> failed", the result of a command whose request failed
+  private failed(operationName: string): CommandResult {
+    return { success: false, message: this.t('operation.failed', { operation: operationName }) };
+  }
+
+  // Skips the announcement when a newer command has taken over
+  private async announceSuccess(message: string, signal: AbortSignal, kind: AnnouncementKind = 'confirmation'): Promise<void> {
+    logger.info(message);
+    if (!signal.aborted) {
+      await this.voiceFeedback.announce(message, kind);
     }
-    return null;
   }
 
   async start(): Promise<void> {
     logger.info('Starting AC Controller...');
     logger.info('Keyboard shortcuts:');
-    logger.info('  CTRL + ALT + Numpad 1: Turn AC on (with state sync)');
-    logger.info('  CTRL + ALT + Numpad 0: Turn AC off (with state sync)');
-    logger.info('  CTRL + Numpad digits (2 digits): Set temperature');
-    logger.info('  CTRL + Numpad Period: Voice status announcement');
+    this.config.keymap.bindings.forEach(binding => {
+      logger.info(`  ${describeBinding(binding)}: ${binding.action}`);
+    });
     logger.info('Press CTRL+C to exit');
 
+    // Discover devices on the account
+    const discovered = await this.withRetry(
+      () => this.sensiboAPI.listDevices(),
+      this.t('operation.deviceDiscovery')
+    );
+
+    try {
+      this.deviceManager.initialize(discovered);
+    } catch (error) {
+      logger.error('No Sensibo devices to control. Set SENSIBO_DEVICE_ID or SENSIBO_DEVICES.', error);
+      process.exit(1);
+    }
+
     // Test API connection
     const state = await this.withRetry(
       () => this.sensiboAPI.getCurrentState(),
-      'Initial API connection'
+      this.t('operation.initialConnection')
     );
     
     if (!state) {
@@ -169,133 +248,864 @@ class ACController {
       process.exit(1);
     }
 
-    logger.info(`AC is currently ${state.on ? 'ON' : 'OFF'} at ${state.targetTemperature}°C`);
+    // Each unit's modes, per-mode temperature ranges, fan levels and swing positions
+    await Promise.all(this.deviceManager.getDevices().map(device =>
+      this.sensiboAPI.loadCapabilities(device.id).catch(() => {
+        logger.warn(`Capabilities of ${device.name} unavailable, checking temperatures against the configured range only`);
+      })
+    ));
+
+    const device = this.deviceManager.getActiveDevice();
+    logger.info(
+      `${device.name} AC is currently ${state.on ? 'ON' : 'OFF'} at ${state.targetTemperature}°${state.temperatureUnit}`
+    );
 
     // Setup keyboard event handlers
     this.setupEventHandlers();
+    this.scheduler.start();
+    this.historyRecorder.start(() => this.deviceManager.getDevices());
+    this.stateMonitor.start(() => this.deviceManager.getDevices());
+    this.mqttBridge?.start(this.deviceManager.getDevices());
+    this.configWatcher.start();
+
+    if (this.httpServer) {
+      try {
+        await this.httpServer.start();
+      } catch (error) {
+        logger.error('Failed to start HTTP control API:', error);
+        process.exit(1);
+      }
+    }
   }
 
   private setupEventHandlers(): void {
-    // Set temperature
-    this.keyboardListener.on('setTemperature', async (temperature: number) => {
-      logger.info(`Set temperature command received: ${temperature}°C`);
-      
-      if (temperature < this.config.minTemp || temperature > this.config.maxTemp) {
-        const error = `Temperature must be between ${this.config.minTemp} and ${this.config.maxTemp}`;
-        logger.error(error);
-        await this.voiceFeedback.announceError(error);
-        return;
+    this.keyboardListener.on('setTemperature', (temperature: number) => this.setTemperature(temperature));
+    this.keyboardListener.on('adjustTemperature', (steps: number) => this.adjustTemperature(steps));
+    this.keyboardListener.on('voiceStatus', () => this.voiceStatus());
+    this.keyboardListener.on('voiceTrend', () => this.voiceTrend());
+    this.keyboardListener.on('powerOn', () => this.powerOn());
+    this.keyboardListener.on('powerOff', () => this.powerOff());
+    this.keyboardListener.on('cycleDevice', () => this.cycleDevice());
+    this.keyboardListener.on('selectDevice', (position: number) => this.selectDevice(position));
+    this.keyboardListener.on('powerOffAll', () => this.powerOffAll());
+    this.keyboardListener.on('sleepTimer', (minutes: number) => this.sleepTimer(minutes));
+    this.keyboardListener.on('offTimer', (quarters: number) => this.offTimer(quarters));
+    this.keyboardListener.on('scheduleTemperature', (digits: number) => this.scheduleTemperature(digits));
+    this.keyboardListener.on('toggleThermostat', () => this.toggleThermostat());
+    this.keyboardListener.on('cycleMode', () => this.cycleMode());
+    this.keyboardListener.on('cycleFanLevel', () => this.cycleFanLevel());
+    this.keyboardListener.on('cycleSwing', () => this.cycleSwing());
+    this.keyboardListener.on('applyPreset', (preset: number | string) => this.applyPreset(preset));
+    this.keyboardListener.on('savePreset', (position: number) => this.savePreset(position));
+    this.keyboardListener.on('undo', () => this.undo());
+    this.sensiboAPI.stateCache.on('stateChanged', event => this.onStateChanged(event));
+    this.thermostat.on('stopped', () => this.voiceFeedback.announceNotification(this.t('thermostat.stopped')));
+    this.sensiboAPI.circuitBreaker.on('close', () => this.voiceFeedback.announceNotification(this.t('sensibo.reachable')));
+    this.configWatcher.on('reload', config => {
+      this.reloadConfig(config).catch(error => logger.error('Failed to apply the reloaded config:', error));
+    });
+    this.configWatcher.on('invalid', () => this.voiceFeedback.announceError(this.t('config.invalid')));
+  }
+
+  // Bindings may only name presets that exist
+  private checkPresetBindings(keymap: Keymap, source: string): void {
+    const unknownPresets = keymap.bindings.filter(binding => binding.preset && !this.presets.find(binding.preset));
+    if (unknownPresets.length > 0) {
+      throw new ConfigurationError(unknownPresets.map(binding =>
+        `${source}: binding "${describeBinding(binding)}" uses unknown preset "${binding.preset}"`
+      ));
+    }
+  }
+
+  // Applies a changed config file; settings needed at startup wait for a restart
+  private async reloadConfig(next: AppConfig): Promise<void> {
+    try {
+      this.checkPresetBindings(next.keymap, next.keymapSource);
+    } catch (error) {
+      if (!(error instanceof ConfigurationError)) throw error;
+      logger.error(`${configFile} changed but is invalid, keeping the previous config:`);
+      error.errors.forEach(err => logger.error(`  - ${err}`));
+      await this.voiceFeedback.announceError(this.t('config.invalid'));
+      return;
+    }
+
+    const restartRequired = applyLiveSettings(this.config, next);
+    logger.level = this.config.logLevel;
+    this.messages.setLocale(this.config.locale, this.config.messages);
+    this.voiceFeedback.setVolume(this.config.voiceVolume);
+    this.keyboardListener.setKeymap(this.config.keymap);
+    this.thermostat.reschedule();
+    if (restartRequired.length > 0) {
+      logger.warn(`Restart to apply the changes to: ${restartRequired.join(', ')}`);
+    }
+    await this.voiceFeedback.announceNotification(this.t('config.reloaded'));
+  }
+
+  async setTemperature(temperature: number, source: CommandSource = 'hotkey'): Promise<CommandResult> {
+    logger.info(`Set temperature command received: ${temperature}`);
+    return this.queued(this.t('operation.setTemperature'), 'temperature', (device, signal) =>
+      this.applyTemperature(device, temperature, signal), source);
+  }
+
+  private async applyTemperature(device: Device, temperature: number, signal: AbortSignal): Promise<CommandResult> {
+    // Two-digit entries are in the device's own unit
+    const rejected = await this.rejectUnsupported(device, { targetTemperature: temperature });
+    if (rejected) {
+      return rejected;
+    }
+
+    const operationName = this.t('operation.setTemperature');
+    const changed = await this.withRetry(
+      () => this.sensiboAPI.setTemperature(temperature, undefined, device.id),
+      operationName,
+      signal
+    );
+    
+    if (!changed) {
+      return this.failed(operationName);
+    }
+
+    // The thermostat holds whatever temperature was last requested
+    if (this.thermostat.getDeviceId() === device.id) {
+      this.thermostat.setSetpoint(temperature);
+    }
+
+    const unit = this.sensiboAPI.getTemperatureUnit(device.id);
+    const message = this.t(changed.length > 0 ? 'temperature.set' : 'temperature.already', {
+      temperature: this.formatTemperature(temperature, unit),
+    });
+    await this.announceSuccess(message, signal);
+    return { success: true, message };
+  }
+
+  async getStatus(device: Device = this.deviceManager.getActiveDevice()): Promise<StatusReport | null> {
+    const statusResult = await this.withRetry(
+      async () => {
+        const [state, roomTemp, timer] = await Promise.all([
+          this.sensiboAPI.getCurrentState(device.id),
+          this.sensiboAPI.getRoomTemperature(device.id),
+          // The status is still worth reporting without the timer
+          this.sensiboAPI.getTimer(device.id).catch(() => null),
+        ]);
+        return { state, roomTemp, timer };
+      },
+      this.t('operation.getStatus')
+    );
+
+    if (!statusResult) {
+      return null;
+    }
+
+    return {
+      device,
+      state: statusResult.state,
+      roomTemperature: statusResult.roomTemp,
+      timer: statusResult.timer,
+    };
+  }
+
+  async voiceStatus(): Promise<void> {
+    logger.info('Voice status command received');
+
+    // Queued behind pending changes so the status includes them
+    await this.queued(this.t('operation.voiceStatus'), null, async device => {
+      const status = await this.getStatus(device);
+      if (!status) {
+        return this.failed(this.t('operation.getStatus'));
       }
+      await this.voiceFeedback.announceStatus(
+        status.state,
+        status.roomTemperature,
+        this.displayUnit(status.state.temperatureUnit),
+        this.deviceManager.hasMultipleDevices() ? status.device.name : undefined,
+        this.statusNotes(status.device.id, status.timer)
+      );
+      return { success: true, message: this.t('status.announced') };
+    });
+  }
 
-      const success = await this.withRetry(
+  // Room temperature trend and humidity, plus the range over the last day
+  async voiceTrend(): Promise<void> {
+    logger.info('Voice trend command received');
+    await this.queued(this.t('operation.voiceTrend'), null, async device => {
+      await this.announceTrend(device);
+      return { success: true, message: this.t('trend.announced') };
+    });
+  }
+
+  private async announceTrend(device: Device): Promise<void> {
+    const readings = await this.withRetry(
+      async () => {
+        const [state, measurement] = await Promise.all([
+          this.sensiboAPI.getCurrentState(device.id),
+          this.sensiboAPI.getMeasurement(device.id),
+        ]);
+        return { state, measurement };
+      },
+      this.t('operation.getTrend')
+    );
+    if (!readings) {
+      return;
+    }
+
+    // Record the fresh reading so the trend ends now
+    this.historyRecorder.record(device, readings.state, readings.measurement);
+    const trend = this.historyStore.trend(device.id, TREND_MINUTES);
+    const [summary] = this.historyStore.summarize(24, device.id);
+    if (trend) {
+      await this.voiceFeedback.announceTrend(
+        trend,
+        summary ?? null,
+        this.displayUnit(readings.state.temperatureUnit),
+        this.deviceManager.hasMultipleDevices() ? device.name : undefined
+      );
+    }
+  }
+
+  // Moves the target by steps degrees from the current one, within the range allowed in the current mode
+  async adjustTemperature(steps: number, source: CommandSource = 'hotkey'): Promise<CommandResult> {
+    logger.info(`Adjust temperature command received: ${steps > 0 ? '+' : ''}${steps}`);
+    // Conflicts with a typed temperature: the later one wins
+    const operationName = this.t('operation.adjustTemperature');
+    return this.queued(operationName, 'temperature', async (device, signal) => {
+      const state = await this.withRetry(() => this.sensiboAPI.getCurrentState(device.id), operationName, signal);
+      if (!state) {
+        return this.failed(operationName);
+      }
+
+      // The thermostat may have nudged the unit's target; adjust what it holds instead
+      const current = this.thermostat.getDeviceId() === device.id ? this.thermostat.getSetpoint() : state.targetTemperature;
+      const values = supportedTemperatures(this.sensiboAPI.getCapabilities(device.id), state.mode, state.temperatureUnit);
+      const { minTemp, maxTemp } = values && values.length > 0
+        ? { minTemp: Math.min(...values), maxTemp: Math.max(...values) }
+        : limitsFor(this.config, state.temperatureUnit);
+      return this.applyTemperature(device, Math.min(Math.max(current + steps, minTemp), maxTemp), signal);
+    }, source);
+  }
+
+  getHistory(hours: number): HistorySummary[] {
+    return this.historyStore.summarize(hours);
+  }
+
+  exportHistory(hours: number): string {
+    return toCsv(this.historyStore.query(new Date(Date.now() - hours * 3600000)));
+  }
+
+  // Power on with state sync
+  async powerOn(source: CommandSource = 'hotkey'): Promise<CommandResult> {
+    logger.info('Power on command received');
+    // Power on and off conflict: the later one wins
+    return this.queued(this.t('operation.powerOn'), 'power', async (device, signal) => {
+      const result = await this.withRetry(
         async () => {
-          await this.sensiboAPI.setTemperature(temperature);
+          await this.sensiboAPI.setPowerWithSync(true, device.id);
           return true;
         },
-        'Set temperature'
+        this.t('operation.powerOnWithSync'),
+        signal
       );
-      
-      if (success) {
-        const message = `Temperature set to ${temperature} degrees`;
-        logger.info(message);
-        await this.voiceFeedback.announceSuccess(message);
+
+      if (!result) {
+        return this.failed(this.t('operation.powerOn'));
       }
-    });
 
-    // Voice status
-    this.keyboardListener.on('voiceStatus', async () => {
-      logger.info('Voice status command received');
+      const message = this.t('power.on');
+      await this.announceSuccess(message, signal);
+      return { success: true, message };
+    }, source);
+  }
 
-      const statusResult = await this.withRetry(
+  // Power off with state sync
+  async powerOff(source: CommandSource = 'hotkey'): Promise<CommandResult> {
+    logger.info('Power off command received');
+    return this.queued(this.t('operation.powerOff'), 'power', async (device, signal) => {
+      const result = await this.withRetry(
         async () => {
-          const [state, roomTemp] = await Promise.all([
-            this.sensiboAPI.getCurrentState(),
-            this.sensiboAPI.getRoomTemperature(),
-          ]);
-          return { state, roomTemp };
+          await this.sensiboAPI.setPowerWithSync(false, device.id);
+          return true;
         },
-        'Get status'
+        this.t('operation.powerOffWithSync'),
+        signal
       );
 
-      if (statusResult) {
-        await this.voiceFeedback.announceTemperatures(
-          statusResult.state.targetTemperature,
-          statusResult.roomTemp
-        );
+      if (!result) {
+        return this.failed(this.t('operation.powerOff'));
       }
+      this.thermostat.powerTurnedOff(device.id);
+
+      const message = this.t('power.off');
+      await this.announceSuccess(message, signal);
+      return { success: true, message };
+    }, source);
+  }
+
+  async setMode(mode: ACMode, source: CommandSource = 'hotkey'): Promise<CommandResult> {
+    logger.info(`Set mode command received: ${mode}`);
+    return this.applySetting(
+      'mode', { mode }, device => this.sensiboAPI.setMode(mode, undefined, device.id),
+      this.t('operation.setMode'), this.t('mode.set', { mode }), source
+    );
+  }
+
+  async setFanLevel(fanLevel: FanLevel, source: CommandSource = 'hotkey'): Promise<CommandResult> {
+    logger.info(`Set fan level command received: ${fanLevel}`);
+    return this.applySetting(
+      'fanLevel', { fanLevel }, device => this.sensiboAPI.setFanLevel(fanLevel, undefined, device.id),
+      this.t('operation.setFanLevel'), this.t('fanLevel.set', { fanLevel }), source
+    );
+  }
+
+  async setSwing(swing: SwingMode, source: CommandSource = 'hotkey'): Promise<CommandResult> {
+    logger.info(`Set swing command received: ${swing}`);
+    return this.applySetting(
+      'swing', { swing }, device => this.sensiboAPI.setSwing(swing, undefined, device.id),
+      this.t('operation.setSwing'), this.t('swing.set', { swing }), source
+    );
+  }
+
+  async cycleMode(): Promise<void> {
+    logger.info('Cycle mode command received');
+    await this.cycleSetting(this.t('operation.cycleMode'), async (state, device) => {
+      const mode = nextValue(supportedModes(this.sensiboAPI.getCapabilities(device.id)), state.mode);
+      await this.sensiboAPI.setMode(mode, state, device.id);
+      return this.t('mode.set', { mode });
     });
+  }
 
-    // Power on with state sync
-    this.keyboardListener.on('powerOn', async () => {
-      logger.info('Power on command received');
+  async cycleFanLevel(): Promise<void> {
+    logger.info('Cycle fan level command received');
+    await this.cycleSetting(this.t('operation.cycleFanLevel'), async (state, device) => {
+      const fanLevel = nextValue(this.supported(supportedFanLevels, device, state, 'fanLevel.notAdjustable'), state.fanLevel);
+      await this.sensiboAPI.setFanLevel(fanLevel, state, device.id);
+      return this.t('fanLevel.set', { fanLevel });
+    });
+  }
 
-      const result = await this.withRetry(
-        async () => {
-          // Get current Sensibo state
-          const currentState = await this.sensiboAPI.getCurrentState();
+  async cycleSwing(): Promise<void> {
+    logger.info('Cycle swing command received');
+    await this.cycleSetting(this.t('operation.cycleSwing'), async (state, device) => {
+      const swing = nextValue(this.supported(supportedSwingModes, device, state, 'swing.notAdjustable'), state.swing);
+      await this.sensiboAPI.setSwing(swing, state, device.id);
+      return this.t('swing.set', { swing });
+    });
+  }
 
-          if (currentState.on) {
-            // If Sensibo thinks AC is on, but user wants to turn it on,
-            // it means the AC is actually off (out of sync)
-            logger.info('Sensibo state shows ON but AC is actually OFF. Syncing state...');
-            await this.sensiboAPI.syncPowerState(false);
-            // Small delay to ensure sync completes
-            await new Promise(resolve => setTimeout(resolve, 500));
-          }
+  /**
+   * Announces why the device cannot apply a change, when that is known before
+   * sending it: from its capabilities and a state fresh enough to base a write
+   * on. Anything this cannot tell is checked against the state read for the
+   * change, and announced as the command's failure.
+   */
+  private async rejectUnsupported(
+    device: Device,
+    change: Partial<ACState>,
+    state: ACState | null = this.sensiboAPI.stateCache.get(device.id, this.config.stateCacheTtl * 1000)
+  ): Promise<CommandResult | null> {
+    const reason = this.sensiboAPI.unsupportedReason(change, state, device.id);
+    if (!reason) {
+      return null;
+    }
+    const error = this.messages.text(reason);
+    logger.error(error);
+    await this.voiceFeedback.announceError(error);
+    return { success: false, message: error, invalid: true };
+  }
+
+  // Values the device supports in its current mode; throws if the setting is fixed in that mode
+  private supported<T>(
+    values: (capabilities: RemoteCapabilities | null, mode: ACMode) => T[],
+    device: Device,
+    state: ACState,
+    reason: 'fanLevel.notAdjustable' | 'swing.notAdjustable'
+  ): T[] {
+    const supported = values(this.sensiboAPI.getCapabilities(device.id), state.mode);
+    if (supported.length === 0) {
+      throw new UnsupportedStateError({ key: reason, params: { mode: state.mode } });
+    }
+    return supported;
+  }
+
+  private applySetting(
+    setting: string,
+    change: Partial<ACState>,
+    operation: (device: Device) => Promise<Array<keyof ACState>>,
+    operationName: string,
+    message: string,
+    source: CommandSource
+  ): Promise<CommandResult> {
+    return this.queued(operationName, setting, async (device, signal) => {
+      const rejected = await this.rejectUnsupported(device, change);
+      if (rejected) {
+        return rejected;
+      }
+
+      const changed = await this.withRetry(() => operation(device), operationName, signal);
+
+      if (!changed) {
+        return this.failed(operationName);
+      }
+
+      const announcement = changed.length > 0 ? message : this.t('alreadySet', { message });
+      await this.announceSuccess(announcement, signal);
+      return { success: true, message: announcement };
+    }, source);
+  }
+
+  // Reads the current state and applies the next value; change returns the announcement.
+  // Not coalesced: every press moves one step from the state left by the previous one.
+  private async cycleSetting(
+    operationName: string,
+    change: (state: ACState, device: Device) => Promise<string>
+  ): Promise<void> {
+    await this.queued(operationName, null, async (device, signal) => {
+      const message = await this.withRetry(
+        async () => change(await this.sensiboAPI.getCurrentState(device.id), device),
+        operationName,
+        signal
+      );
+
+      if (!message) {
+        return this.failed(operationName);
+      }
+      await this.announceSuccess(message, signal);
+      return { success: true, message };
+    });
+  }
+
+  // Applies a preset, by number (hotkey digits) or name, in a single state update
+  async applyPreset(preset: number | string, source: CommandSource = 'hotkey'): Promise<CommandResult> {
+    logger.info(`Apply preset command received: ${preset}`);
+    const found = typeof preset === 'number' ? this.presets.get(preset) : this.presets.find(preset);
+    if (!found) {
+      const error = typeof preset === 'number'
+        ? this.t('preset.unknownNumber', { number: preset })
+        : this.t('preset.unknown', { preset });
+      logger.error(error);
+      await this.voiceFeedback.announceError(error);
+      return { success: false, message: error, invalid: true };
+    }
+
+    const operationName = this.t('operation.applyPreset', { preset: found.name });
+    return this.queued(operationName, 'preset', async (device, signal) => {
+      const changed = await this.withRetry(
+        () => this.sensiboAPI.setACState(found.state, undefined, device.id),
+        operationName,
+        signal
+      );
+
+      if (!changed) {
+        return this.failed(operationName);
+      }
+
+      this.updateSetpoint(device, found.state);
+      const applied = this.t('preset.applied', { preset: found.name });
+      const message = changed.length > 0 ? applied : this.t('alreadySet', { message: applied });
+      await this.announceSuccess(message, signal);
+      return { success: true, message };
+    }, source);
+  }
+
+  // Applies a partial state to a given device, e.g. a command received over MQTT
+  async setDeviceState(deviceId: string, state: Partial<ACState>, source: CommandSource): Promise<CommandResult> {
+    const device = this.deviceManager.find(deviceId);
+    if (!device) {
+      return { success: false, message: this.t('device.unknown', { device: deviceId }), invalid: true };
+    }
 
-          // Now turn the AC on
-          await this.sensiboAPI.setACState({ on: true });
+    logger.info(`Set state command received for ${device.name}: ${this.messages.state(state)}`);
+    const setting = Object.keys(state).filter(key => key in SETTING_KEYS).map(key => SETTING_KEYS[key]).sort().join(',');
+    const operationName = this.t('operation.setDeviceState', { device: device.name });
+    return this.queuedFor(device, operationName, setting || null, async (device, signal) => {
+      const changed = await this.withRetry(
+        () => this.sensiboAPI.setACState(state, undefined, device.id),
+        operationName,
+        signal
+      );
+
+      if (!changed) {
+        return this.failed(operationName);
+      }
+
+      this.updateSetpoint(device, state);
+      // Only what changed, e.g. "fan high" when the AC already was on and cooling
+      const message = this.withDevice(
+        changed.length > 0 ? this.messages.state(changedPart(state, changed)) : this.t('state.noChange'), device
+      );
+      await this.announceSuccess(message, signal);
+      return { success: true, message };
+    }, source);
+  }
+
+  // The thermostat holds the target of a state applied to its device, and stops if the state turns it off
+  private updateSetpoint(device: Device, state: Partial<ACState>): void {
+    if (state.on === false) {
+      this.thermostat.powerTurnedOff(device.id);
+      return;
+    }
+    const { targetTemperature, temperatureUnit } = state;
+    if (targetTemperature !== undefined && this.thermostat.getDeviceId() === device.id) {
+      const deviceUnit = this.sensiboAPI.getTemperatureUnit(device.id);
+      this.thermostat.setSetpoint(Math.round(convertTemperature(targetTemperature, temperatureUnit ?? 'C', deviceUnit)));
+    }
+  }
+
+  // Restores the state from before the active device's last command that has not been undone
+  async undo(): Promise<void> {
+    logger.info('Undo command received');
+    const device = this.deviceManager.getActiveDevice();
+    // Queued directly rather than through queued(): the undo is recorded with the id of the record it reverts
+    await this.commandQueue.enqueue(this.t('operation.undo'), null, async signal => {
+      // Looked up once earlier commands have run and been recorded
+      const record = this.commandHistory.lastUndoable(device.id);
+      if (!record) {
+        const error = this.t('undo.nothing');
+        logger.error(error);
+        await this.voiceFeedback.announceError(error);
+        return;
+      }
+
+      const restored = revertedState(record);
+      const operationName = this.t('operation.undoCommand', { command: record.command });
+      const success = await this.recorded(operationName, 'undo', () => this.withRetry(
+        async () => {
+          await this.sensiboAPI.setACState(restored, undefined, device.id);
           return true;
         },
-        'Power on with sync'
-      );
+        operationName,
+        signal
+      ), record.id);
 
-      if (result) {
-        const message = 'AC turned on';
-        logger.info(message);
-        await this.voiceFeedback.announceSuccess(message);
+      if (success) {
+        this.updateSetpoint(device, restored);
+        await this.announceSuccess(
+          this.t('undo.done', { command: record.command, state: this.messages.state(restored) }), signal
+        );
       }
     });
+  }
 
-    // Power off with state sync
-    this.keyboardListener.on('powerOff', async () => {
-      logger.info('Power off command received');
+  // Saves the active device's current state as preset number N
+  async savePreset(position: number): Promise<void> {
+    logger.info(`Save preset command received: ${position}`);
+    const operationName = this.t('operation.savePreset');
+    await this.queued(operationName, null, async (device, signal) => {
+      const state = await this.withRetry(() => this.sensiboAPI.getCurrentState(device.id), operationName, signal);
+      if (!state) {
+        return this.failed(operationName);
+      }
 
-      const result = await this.withRetry(
+      let preset: Preset | null;
+      try {
+        preset = this.presets.save(position, state);
+      } catch (error) {
+        if (!(error instanceof ConfigurationError)) throw error;
+        error.errors.forEach(err => logger.error(err));
+        const message = this.t('preset.unsavable');
+        await this.voiceFeedback.announceError(message);
+        return { success: false, message, invalid: true };
+      }
+      if (!preset) {
+        const error = this.t('preset.invalidNumber', { max: this.presets.getPresets().length + 1 });
+        logger.error(error);
+        await this.voiceFeedback.announceError(error);
+        return { success: false, message: error, invalid: true };
+      }
+
+      const message = this.t('preset.saved', { preset: preset.name });
+      await this.announceSuccess(message, signal);
+      return { success: true, message };
+    });
+  }
+
+  // Cycle through devices
+  async cycleDevice(): Promise<void> {
+    logger.info('Cycle device command received');
+    const device = this.deviceManager.cycle();
+    await this.voiceFeedback.announceSuccess(this.t('device.active', { device: device.name }));
+  }
+
+  // Select device by position
+  async selectDevice(position: number): Promise<void> {
+    logger.info(`Select device command received: ${position}`);
+    const device = this.deviceManager.select(position);
+    if (!device) {
+      const error = this.t('device.unknownNumber', { number: position });
+      logger.error(error);
+      await this.voiceFeedback.announceError(error);
+      return;
+    }
+    await this.voiceFeedback.announceSuccess(this.t('device.active', { device: device.name }));
+  }
+
+  // Power off every device
+  async powerOffAll(): Promise<void> {
+    logger.info('Power off all devices command received');
+    const operationName = this.t('operation.powerOffAll');
+    await this.commandQueue.enqueue(operationName, null, signal =>
+      this.recorded(operationName, 'hotkey', () => this.applyPowerOffAll(signal))
+    );
+  }
+
+  private async applyPowerOffAll(signal: AbortSignal): Promise<void> {
+    const devices = this.deviceManager.getDevices();
+
+    const results = await Promise.all(devices.map(device =>
+      this.withRetry(
         async () => {
-          // Get current Sensibo state
-          const currentState = await this.sensiboAPI.getCurrentState();
-
-          if (!currentState.on) {
-            // If Sensibo thinks AC is off, but user wants to turn it off,
-            // it means the AC is actually on (out of sync)
-            logger.info('Sensibo state shows OFF but AC is actually ON. Syncing state...');
-            await this.sensiboAPI.syncPowerState(true);
-            // Small delay to ensure sync completes
-            await new Promise(resolve => setTimeout(resolve, 500));
+          const currentState = await this.sensiboAPI.getCurrentState(device.id);
+          if (currentState.on) {
+            await this.sensiboAPI.setACState({ on: false }, currentState, device.id);
           }
-
-          // Now turn the AC off
-          await this.sensiboAPI.setACState({ on: false });
+          this.thermostat.powerTurnedOff(device.id);
           return true;
         },
-        'Power off with sync'
+        this.t('operation.powerOffDevice', { device: device.name }),
+        signal
+      )
+    ));
+
+    const succeeded = results.filter(Boolean).length;
+    if (succeeded > 0) {
+      const message = succeeded === devices.length
+        ? this.t('powerOffAll.done')
+        : this.t('powerOffAll.partial', { succeeded, total: devices.length });
+      await this.announceSuccess(message, signal);
+    }
+  }
+
+  // Reports changes made with the Sensibo app, the remote or Climate React
+  private async onStateChanged(event: StateChangedEvent): Promise<void> {
+    if (event.source !== 'external') {
+      logger.debug(`AC state of ${event.deviceId} changed`, event.diff);
+      return;
+    }
+
+    const message = this.describeExternalChange(event);
+    const { notifications } = this.config.monitor;
+    if (notifications === 'off') {
+      logger.debug(message, event.diff);
+      return;
+    }
+    logger.info(message, event.diff);
+    if (notifications === 'voice') {
+      await this.voiceFeedback.announceNotification(message);
+    }
+  }
+
+  // e.g. "AC turned off externally" or "Changed externally: mode heat, fan high"
+  private describeExternalChange({ deviceId, current, diff }: StateChangedEvent): string {
+    const parts: string[] = [];
+    if (diff.mode) parts.push(this.t('external.mode', { mode: current.mode }));
+    if (diff.targetTemperature || diff.temperatureUnit) {
+      parts.push(this.t('external.target', {
+        temperature: this.formatTemperature(current.targetTemperature, current.temperatureUnit),
+      }));
+    }
+    if (diff.fanLevel) parts.push(this.t('state.fanLevel', { fanLevel: current.fanLevel }));
+    if (diff.swing && current.swing) parts.push(this.t('state.swing', { swing: current.swing }));
+
+    let message: string;
+    if (diff.on) {
+      message = this.t(current.on ? 'external.turnedOn' : 'external.turnedOff');
+      if (current.on && parts.length > 0) {
+        message += `, ${parts.join(', ')}`;
+      }
+    } else {
+      message = this.t('external.changed', { changes: parts.join(', ') });
+    }
+
+    return this.withDevice(message, this.deviceManager.find(deviceId));
+  }
+
+  // "Bedroom. <message>" when there is more than one device to tell apart
+  private withDevice(message: string, device: Device | null): string {
+    return this.deviceManager.hasMultipleDevices() && device
+      ? this.t('devicePrefix', { device: device.name, message })
+      : message;
+  }
+
+  private displayUnit(deviceUnit: TemperatureUnit): TemperatureUnit {
+    return this.config.displayUnit === 'device' ? deviceUnit : this.config.displayUnit;
+  }
+
+  // Spoken temperature in the display unit, e.g. "24 degrees Celsius"
+  private formatTemperature(value: number, deviceUnit: TemperatureUnit): string {
+    const unit = this.displayUnit(deviceUnit);
+    return this.messages.degrees(Math.round(convertTemperature(value, deviceUnit, unit)), unit);
+  }
+
+  // Extra facts for the status announcement
+  private statusNotes(deviceId: string, timer: ACTimer | null): string[] {
+    const notes = this.scheduler.describeTimers(deviceId);
+    if (timer?.isEnabled) {
+      notes.push(this.t('status.sensiboTimer', {
+        state: this.messages.state(timer.acState), when: this.messages.when(new Date(timer.targetTime)),
+      }));
+    }
+    if (this.thermostat.getDeviceId() === deviceId) {
+      const setpoint = this.thermostat.getSetpoint();
+      const unit = this.sensiboAPI.getTemperatureUnit(deviceId);
+      notes.unshift(this.t('status.thermostat', {
+        target: Math.round(convertTemperature(setpoint, unit, this.displayUnit(unit))),
+      }));
+    }
+    return notes;
+  }
+
+  async toggleThermostat(): Promise<void> {
+    logger.info('Toggle thermostat command received');
+
+    if (this.thermostat.isEnabled()) {
+      this.thermostat.disable();
+      await this.voiceFeedback.announceSuccess(this.t('thermostat.off'));
+      return;
+    }
+
+    const operationName = this.t('operation.enableThermostat');
+    await this.queued(operationName, null, async (device, signal) => {
+      const state = await this.withRetry(
+        () => this.sensiboAPI.getCurrentState(device.id),
+        operationName,
+        signal
       );
+      if (!state) {
+        return this.failed(operationName);
+      }
+
+      this.thermostat.enable(device.id, state.targetTemperature);
+      const message = this.t('thermostat.on', {
+        temperature: this.formatTemperature(state.targetTemperature, state.temperatureUnit),
+      });
+      await this.announceSuccess(message, signal);
+      return { success: true, message };
+    });
+  }
+
+  // Turn off after N minutes; 0 cancels the sleep timer
+  async sleepTimer(minutes: number): Promise<void> {
+    logger.info(`Sleep timer command received: ${minutes} minutes`);
+    const device = this.deviceManager.getActiveDevice();
+
+    if (minutes === 0) {
+      const cancelled = this.scheduler.cancelSleepTimer(device.id);
+      await this.voiceFeedback.announceSuccess(this.t(cancelled ? 'sleepTimer.cancelled' : 'sleepTimer.none'));
+      return;
+    }
+
+    this.scheduler.setSleepTimer(device.id, minutes);
+    await this.voiceFeedback.announceSuccess(this.t('timer.off', { when: this.t('when.inMinutes', { minutes }) }));
+  }
 
-      if (result) {
-        const message = 'AC turned off';
-        logger.info(message);
-        await this.voiceFeedback.announceSuccess(message);
+  // Turn off in N quarter hours with a Sensibo timer, which survives the controller; 0 deletes the timer
+  async offTimer(quarters: number): Promise<void> {
+    logger.info(`Off timer command received: ${quarters * 15} minutes`);
+    await this.queued(this.t('operation.offTimer'), 'timer', async (device, signal) => {
+      if (quarters === 0) {
+        const deleted = await this.withRetry(
+          async () => {
+            if (!await this.sensiboAPI.getTimer(device.id)) {
+              return this.t('timer.none');
+            }
+            await this.sensiboAPI.deleteTimer(device.id);
+            return this.t('timer.cancelled');
+          },
+          this.t('operation.cancelTimer'),
+          signal
+        );
+        if (!deleted) {
+          return this.failed(this.t('operation.cancelTimer'));
+        }
+        await this.announceSuccess(deleted, signal);
+        return { success: true, message: deleted };
+      }
+
+      const minutes = quarters * 15;
+      const success = await this.withRetry(
+        async () => {
+          await this.sensiboAPI.setTimer(minutes, { on: false }, device.id);
+          return true;
+        },
+        this.t('operation.setTimer'),
+        signal
+      );
+      if (!success) {
+        return this.failed(this.t('operation.setTimer'));
       }
+
+      const message = this.t('timer.off', { when: this.messages.when(new Date(Date.now() + minutes * 60000)) });
+      await this.announceSuccess(message, signal);
+      return { success: true, message };
     });
   }
 
+  // Digits TTHHMM: set temperature TT at HH:MM
+  async scheduleTemperature(digits: number): Promise<void> {
+    const temperature = Math.floor(digits / 10000);
+    const hours = Math.floor(digits / 100) % 100;
+    const minutes = digits % 100;
+    const device = this.deviceManager.getActiveDevice();
+    logger.info(`Schedule temperature command received: ${temperature} at ${hours}:${minutes}`);
+
+    if (hours > 23 || minutes > 59) {
+      const error = this.t('schedule.invalidTime');
+      logger.error(error);
+      await this.voiceFeedback.announceError(error);
+      return;
+    }
+
+    // Checked like a temperature set now: against the range the unit supports in its current mode
+    const operationName = this.t('operation.scheduleTemperature');
+    const state = this.sensiboAPI.stateCache.get(device.id, this.config.stateCacheTtl * 1000)
+      ?? await this.withRetry(() => this.sensiboAPI.getCurrentState(device.id), operationName);
+    if (!state || await this.rejectUnsupported(device, { targetTemperature: temperature }, state)) {
+      return;
+    }
+
+    const unit = state.temperatureUnit;
+    this.scheduler.scheduleAt(device.id, hours, minutes, { targetTemperature: temperature, temperatureUnit: unit });
+    await this.voiceFeedback.announceSuccess(this.t('schedule.set', {
+      temperature: this.formatTemperature(temperature, unit),
+      time: `${hours}:${String(minutes).padStart(2, '0')}`,
+    }));
+  }
+
+  private async runScheduled(state: Partial<ACState>, deviceName: string | undefined, description: string): Promise<void> {
+    const device = deviceName ? this.deviceManager.find(deviceName) : this.deviceManager.getActiveDevice();
+    if (!device) {
+      logger.error(`${description}: unknown device "${deviceName}"`);
+      await this.voiceFeedback.announceError(this.t('device.unknown', { device: deviceName }));
+      return;
+    }
+
+    await this.commandQueue.enqueue(description, null, signal => this.recorded(description, 'schedule', async () => {
+      const changed = await this.withRetry(
+        () => this.sensiboAPI.setACState(state, undefined, device.id),
+        description,
+        signal
+      );
+
+      if (changed) {
+        this.updateSetpoint(device, state);
+        const message = changed.length > 0 ? description : this.t('alreadySet', { message: description });
+        // Nobody pressed anything, so this is news rather than a confirmation
+        await this.announceSuccess(this.withDevice(message, device), signal, 'notification');
+      }
+    }));
+  }
+
   async stop(): Promise<void> {
     logger.info('Stopping AC Controller...');
     
     // Stop components gracefully with timeout
     try {
       this.keyboardListener.stop();
+      this.configWatcher.stop();
+      this.scheduler.stop();
+      this.thermostat.disable();
+      this.historyRecorder.stop();
+      this.stateMonitor.stop();
+      this.httpServer?.stop();
+      this.mqttBridge?.stop().catch(error => logger.error('Failed to stop MQTT bridge:', error));
       this.voiceFeedback.stop();
       
       // Wait briefly for cleanup to complete
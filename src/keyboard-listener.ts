@@ -1,30 +1,66 @@
 import { GlobalKeyboardListener, IGlobalKeyEvent } from 'node-global-key-listener';
 import winston from 'winston';
 import { EventEmitter } from 'events';
+import { Keymap, KeyBinding, Modifier, describeBinding, extractDigits, keyMatches } from './keymap.js';
 
 export interface KeyboardEvents {
   'setTemperature': number;
+  'adjustTemperature': number; // Degrees up (positive) or down, from temperatureUp/temperatureDown presses
   'voiceStatus': void;
+  'voiceTrend': void;
   'powerOn': void;
   'powerOff': void;
+  'cycleDevice': void;
+  'selectDevice': number;
+  'powerOffAll': void;
+  'sleepTimer': number; // Minutes, 0 cancels
+  'offTimer': number; // Quarter hours, 0 cancels
+  'scheduleTemperature': number; // Digits TTHHMM: temperature, hour, minute
+  'toggleThermostat': void;
+  'cycleMode': void;
+  'cycleFanLevel': void;
+  'cycleSwing': void;
+  'applyPreset': number | string; // Preset number, or name for bindings with a preset
+  'savePreset': number; // Preset number
+  'undo': void;
 }
 
+const MODIFIER_KEYS: Record<string, Modifier> = {
+  'LEFT CTRL': 'ctrl',
+  'RIGHT CTRL': 'ctrl',
+  'LEFT ALT': 'alt',
+  'RIGHT ALT': 'alt',
+  'LEFT SHIFT': 'shift',
+  'RIGHT SHIFT': 'shift',
+  'LEFT META': 'meta',
+  'RIGHT META': 'meta',
+};
+
 export class KeyboardListener extends EventEmitter {
   private listener: GlobalKeyboardListener;
   private logger: winston.Logger;
-  private ctrlPressed = false;
-  private altPressed = false;
-  private temperatureBuffer: string[] = [];
+  private keymap: Keymap;
+  private pressedModifiers = new Set<Modifier>();
+  private sequenceBuffer: string[] = [];
   private lastKeyTime = 0;
+  private adjustSteps = 0; // temperatureUp/temperatureDown presses not yet emitted
+  private adjustTimer: NodeJS.Timeout | null = null;
   
-  constructor(logger: winston.Logger) {
+  constructor(logger: winston.Logger, keymap: Keymap) {
     super();
     this.setMaxListeners(10); // Prevent memory leaks
     this.logger = logger;
+    this.keymap = keymap;
     this.listener = new GlobalKeyboardListener();
     this.setupListeners();
   }
 
+  // Takes effect with the next key press; a half-typed sequence is discarded
+  setKeymap(keymap: Keymap): void {
+    this.keymap = keymap;
+    this.sequenceBuffer = [];
+  }
+
   private setupListeners(): void {
     this.listener.addListener((event: IGlobalKeyEvent) => {
       const keyName = event.name || event.rawKey?.name || 'UNKNOWN';
@@ -42,91 +78,130 @@ export class KeyboardListener extends EventEmitter {
     const currentTime = Date.now();
     
     // Track modifier keys
-    if (key === 'LEFT CTRL' || key === 'RIGHT CTRL') {
-      this.ctrlPressed = true;
-    }
-    if (key === 'LEFT ALT' || key === 'RIGHT ALT') {
-      this.altPressed = true;
+    const modifier = MODIFIER_KEYS[key];
+    if (modifier) {
+      this.pressedModifiers.add(modifier);
+      return;
     }
 
-    // CTRL + Numpad Period (Del) - Voice status
-    if (this.ctrlPressed && !this.altPressed && (key === 'NUMPAD DOT' || key === 'NUMPAD DELETE')) {
-      this.logger.info('Voice status hotkey detected (CTRL+Numpad Period)');
-      this.emit('voiceStatus');
-      this.temperatureBuffer.length = 0;
+    // Ignore keys pressed without any modifier
+    if (this.pressedModifiers.size === 0) {
       return;
     }
 
-    // CTRL + ALT + Numpad 1 - Turn AC on
-    if (this.ctrlPressed && this.altPressed && key === 'NUMPAD 1') {
-      this.logger.info('Turn AC on hotkey detected (CTRL+ALT+Numpad1)');
-      this.emit('powerOn');
-      this.temperatureBuffer.length = 0;
-      return;
+    // Reset buffer if too much time has passed
+    if (currentTime - this.lastKeyTime > this.keymap.sequenceTimeout) {
+      this.sequenceBuffer.length = 0;
     }
+    this.lastKeyTime = currentTime;
 
-    // CTRL + ALT + Numpad 0 - Turn AC off
-    if (this.ctrlPressed && this.altPressed && key === 'NUMPAD 0') {
-      this.logger.info('Turn AC off hotkey detected (CTRL+ALT+Numpad0)');
-      this.emit('powerOff');
-      this.temperatureBuffer.length = 0;
+    this.sequenceBuffer.push(key);
+    if (this.matchSequence()) {
       return;
     }
 
-    // CTRL + Numpad digits for temperature
-    if (this.ctrlPressed && !this.altPressed) {
-      const numpadMatch = key.match(/^NUMPAD (\d)$/);
-      if (numpadMatch) {
-        const digit = numpadMatch[1];
-        
-        // Reset buffer if too much time has passed
-        if (currentTime - this.lastKeyTime > 1000) {
-          this.temperatureBuffer.length = 0;
-        }
-        
-        this.temperatureBuffer.push(digit);
-        this.lastKeyTime = currentTime;
-        
-        this.logger.debug(`Temperature buffer: ${this.temperatureBuffer.join('')}`);
-        
-        // If we have 2 digits, set the temperature
-        if (this.temperatureBuffer.length === 2) {
-          const temperature = parseInt(this.temperatureBuffer.join(''), 10);
-          this.logger.info(`Set temperature to ${temperature}°C`);
-          this.emit('setTemperature', temperature);
-          this.temperatureBuffer.length = 0;
-        }
+    // The buffered keys lead nowhere; let this key start a new sequence
+    if (this.sequenceBuffer.length > 1) {
+      this.sequenceBuffer.length = 0;
+      this.sequenceBuffer.push(key);
+      if (this.matchSequence()) {
+        return;
       }
     }
+    this.sequenceBuffer.length = 0;
+  }
+
+  // Returns true if the buffer completes a binding or is a prefix of one
+  private matchSequence(): boolean {
+    const candidates = this.keymap.bindings.filter(binding =>
+      this.modifiersMatch(binding) &&
+      binding.keys.length >= this.sequenceBuffer.length &&
+      this.sequenceBuffer.every((key, i) => keyMatches(binding.keys[i], key))
+    );
+
+    if (candidates.length === 0) {
+      return false;
+    }
+
+    const completed = candidates.find(binding => binding.keys.length === this.sequenceBuffer.length);
+    if (completed) {
+      this.trigger(completed);
+      this.sequenceBuffer.length = 0;
+    } else {
+      this.logger.debug(`Key sequence buffer: ${this.sequenceBuffer.join(', ')}`);
+    }
+    return true;
+  }
+
+  private modifiersMatch(binding: KeyBinding): boolean {
+    return binding.modifiers.length === this.pressedModifiers.size &&
+      binding.modifiers.every(m => this.pressedModifiers.has(m));
+  }
+
+  private trigger(binding: KeyBinding): void {
+    const digits = this.sequenceBuffer.map((key, i) => extractDigits(binding.keys[i], key)).join('');
+    this.logger.info(`${binding.action} hotkey detected (${describeBinding(binding)})`);
+
+    if (binding.action === 'temperatureUp' || binding.action === 'temperatureDown') {
+      this.adjust(binding.action === 'temperatureUp' ? 1 : -1);
+    } else if (binding.preset) {
+      this.emit(binding.action, binding.preset);
+    } else if (digits) {
+      this.emit(binding.action, parseInt(digits, 10));
+    } else {
+      this.emit(binding.action);
+    }
+  }
+
+  /**
+   * Adds up rapid presses, including the key repeat of a held key, and emits
+   * the total once they pause for adjustDelay, so three presses are a single
+   * change of 3 degrees.
+   */
+  private adjust(step: number): void {
+    this.adjustSteps += step;
+    if (this.adjustTimer) {
+      clearTimeout(this.adjustTimer);
+    }
+    this.adjustTimer = setTimeout(() => {
+      const steps = this.adjustSteps;
+      this.adjustSteps = 0;
+      this.adjustTimer = null;
+      // Presses in both directions can cancel out
+      if (steps !== 0) {
+        this.emit('adjustTemperature', steps);
+      }
+    }, this.keymap.adjustDelay);
   }
 
   private handleKeyUp(keyName: string | number): void {
     const key = String(keyName).toUpperCase();
     
     // Release modifier keys
-    if (key === 'LEFT CTRL' || key === 'RIGHT CTRL') {
-      this.ctrlPressed = false;
-      // Clear temperature buffer when CTRL is released
-      if (this.temperatureBuffer.length > 0) {
-        this.logger.debug('CTRL released, clearing temperature buffer');
-        this.temperatureBuffer.length = 0; // Clear array efficiently
+    const modifier = MODIFIER_KEYS[key];
+    if (modifier) {
+      this.pressedModifiers.delete(modifier);
+      // Clear sequence buffer when a modifier is released
+      if (this.sequenceBuffer.length > 0) {
+        this.logger.debug(`${modifier.toUpperCase()} released, clearing key sequence buffer`);
+        this.sequenceBuffer.length = 0; // Clear array efficiently
       }
     }
-    if (key === 'LEFT ALT' || key === 'RIGHT ALT') {
-      this.altPressed = false;
-    }
   }
 
   stop(): void {
     try {
       this.listener.kill();
+      if (this.adjustTimer) {
+        clearTimeout(this.adjustTimer);
+        this.adjustTimer = null;
+      }
       this.removeAllListeners();
-      this.temperatureBuffer.length = 0; // Clear buffer
-      this.ctrlPressed = false;
-      this.altPressed = false;
+      this.sequenceBuffer.length = 0; // Clear buffer
+      this.pressedModifiers.clear();
       this.logger.info('Keyboard listener stopped');
     } catch (error) {
       this.logger.error('Error stopping keyboard listener:', error);
     }
   }
-}
\ No newline at end of file
+}
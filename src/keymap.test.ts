@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_KEYMAP, KeyBinding, validateKeymap } from './keymap.js';
+import { ConfigurationError } from './types.js';
+
+// Errors validateKeymap reports for the bindings, none if they are valid
+function errorsFor(bindings: Array<Partial<KeyBinding>>): string[] {
+  try {
+    validateKeymap({ bindings }, 'keymap.json');
+    return [];
+  } catch (error) {
+    assert.ok(error instanceof ConfigurationError);
+    return error.errors;
+  }
+}
+
+describe('validateKeymap conflict detection', () => {
+  it('accepts the default keymap', () => {
+    assert.deepEqual(errorsFor(DEFAULT_KEYMAP.bindings), []);
+  });
+
+  it('reports two bindings with the same keys', () => {
+    const errors = errorsFor([
+      { action: 'powerOn', modifiers: ['ctrl'], keys: ['F1'] },
+      { action: 'powerOff', modifiers: ['ctrl'], keys: ['f1'] },
+    ]);
+
+    assert.deepEqual(errors, ['keymap.json: binding "CTRL + F1" (powerOn) conflicts with "CTRL + F1" (powerOff)']);
+  });
+
+  it('reports a binding whose keys start another binding\'s sequence', () => {
+    const errors = errorsFor([
+      { action: 'undo', modifiers: ['ctrl', 'alt'], keys: ['NUMPAD 3'] },
+      { action: 'applyPreset', modifiers: ['alt', 'ctrl'], keys: ['NUMPAD 3', 'NUMPAD #'] },
+    ]);
+
+    assert.equal(errors.length, 1);
+    assert.match(errors[0], /\(undo\) conflicts with .* \(applyPreset\)/);
+  });
+
+  it('reports a digit wildcard that overlaps a fixed key', () => {
+    const errors = errorsFor([
+      { action: 'setTemperature', modifiers: ['ctrl'], keys: ['NUMPAD #', 'NUMPAD #'] },
+      { action: 'powerOn', modifiers: ['ctrl'], keys: ['NUMPAD 7'] },
+    ]);
+
+    assert.equal(errors.length, 1);
+    assert.match(errors[0], /\(setTemperature\) conflicts with .* \(powerOn\)/);
+  });
+
+  it('accepts the same keys with other modifiers, and sequences that differ early', () => {
+    const errors = errorsFor([
+      { action: 'powerOn', modifiers: ['ctrl'], keys: ['F1'] },
+      { action: 'powerOff', modifiers: ['ctrl', 'shift'], keys: ['F1'] },
+      { action: 'selectDevice', modifiers: ['alt'], keys: ['F2', 'NUMPAD #'] },
+      { action: 'savePreset', modifiers: ['alt'], keys: ['F3', 'NUMPAD #'] },
+    ]);
+
+    assert.deepEqual(errors, []);
+  });
+});
@@ -0,0 +1,243 @@
+import fs from 'fs';
+import path from 'path';
+import { ConfigurationError } from './types.js';
+
+export type Modifier = 'ctrl' | 'alt' | 'shift' | 'meta';
+
+export const KEY_ACTIONS = [
+  'powerOn', 'powerOff', 'setTemperature', 'temperatureUp', 'temperatureDown', 'voiceStatus', 'voiceTrend',
+  'cycleDevice', 'selectDevice', 'powerOffAll',
+  'sleepTimer', 'offTimer', 'scheduleTemperature', 'toggleThermostat',
+  'cycleMode', 'cycleFanLevel', 'cycleSwing', 'applyPreset', 'savePreset', 'undo',
+] as const;
+export type KeyAction = typeof KEY_ACTIONS[number];
+
+// A '#' inside a key name matches any digit (e.g. 'NUMPAD #' matches 'NUMPAD 0'..'NUMPAD 9').
+// Matched digits are concatenated and passed to the action as a number.
+export const DIGIT_WILDCARD = '#';
+
+export interface KeyBinding {
+  action: KeyAction;
+  modifiers: Modifier[];
+  keys: string[];
+  preset?: string; // applyPreset only: preset name, instead of a digit for its number
+}
+
+export interface Keymap {
+  sequenceTimeout: number; // Max gap between keys of a sequence (ms)
+  adjustDelay: number; // Pause after the last temperatureUp/temperatureDown press before the total is applied (ms)
+  bindings: KeyBinding[];
+}
+
+const MODIFIERS: Modifier[] = ['ctrl', 'alt', 'shift', 'meta'];
+
+// Actions that consume the digits captured by '#' wildcards
+const DIGIT_ACTIONS: KeyAction[] = [
+  'setTemperature', 'selectDevice', 'sleepTimer', 'offTimer', 'scheduleTemperature', 'applyPreset', 'savePreset',
+];
+
+export const DEFAULT_KEYMAP: Keymap = {
+  sequenceTimeout: 1000,
+  adjustDelay: 800,
+  bindings: [
+    { action: 'powerOn', modifiers: ['ctrl', 'alt'], keys: ['NUMPAD 1'] },
+    { action: 'powerOff', modifiers: ['ctrl', 'alt'], keys: ['NUMPAD 0'] },
+    { action: 'voiceStatus', modifiers: ['ctrl'], keys: ['NUMPAD DOT'] },
+    { action: 'voiceStatus', modifiers: ['ctrl'], keys: ['NUMPAD DELETE'] },
+    { action: 'setTemperature', modifiers: ['ctrl'], keys: ['NUMPAD #', 'NUMPAD #'] },
+    { action: 'temperatureUp', modifiers: ['ctrl'], keys: ['NUMPAD PLUS'] },
+    { action: 'temperatureDown', modifiers: ['ctrl'], keys: ['NUMPAD MINUS'] },
+    { action: 'voiceTrend', modifiers: ['ctrl', 'alt'], keys: ['NUMPAD 2'] },
+    { action: 'cycleDevice', modifiers: ['ctrl', 'alt'], keys: ['NUMPAD MULTIPLY'] },
+    { action: 'selectDevice', modifiers: ['ctrl', 'alt'], keys: ['NUMPAD DIVIDE', 'NUMPAD #'] },
+    { action: 'undo', modifiers: ['ctrl', 'alt'], keys: ['NUMPAD 4'] },
+    { action: 'toggleThermostat', modifiers: ['ctrl', 'alt'], keys: ['NUMPAD 5'] },
+    { action: 'applyPreset', modifiers: ['ctrl', 'alt'], keys: ['NUMPAD 3', 'NUMPAD #'] },
+    { action: 'savePreset', modifiers: ['ctrl', 'alt'], keys: ['NUMPAD 6', 'NUMPAD #'] },
+    { action: 'cycleMode', modifiers: ['ctrl', 'alt'], keys: ['NUMPAD 7'] },
+    { action: 'cycleFanLevel', modifiers: ['ctrl', 'alt'], keys: ['NUMPAD 8'] },
+    { action: 'cycleSwing', modifiers: ['ctrl', 'alt'], keys: ['NUMPAD 9'] },
+    { action: 'sleepTimer', modifiers: ['ctrl', 'alt'], keys: ['NUMPAD MINUS', 'NUMPAD #', 'NUMPAD #'] },
+    { action: 'offTimer', modifiers: ['ctrl', 'alt'], keys: ['NUMPAD DOT', 'NUMPAD #'] },
+    { action: 'offTimer', modifiers: ['ctrl', 'alt'], keys: ['NUMPAD DELETE', 'NUMPAD #'] },
+    {
+      action: 'scheduleTemperature',
+      modifiers: ['ctrl', 'alt'],
+      keys: ['NUMPAD PLUS', 'NUMPAD #', 'NUMPAD #', 'NUMPAD #', 'NUMPAD #', 'NUMPAD #', 'NUMPAD #'],
+    },
+  ],
+};
+
+export function keyMatches(pattern: string, key: string): boolean {
+  if (!pattern.includes(DIGIT_WILDCARD)) {
+    return pattern === key;
+  }
+  const regex = new RegExp(`^${pattern.split(DIGIT_WILDCARD).map(escapeRegex).join('\\d')}$`);
+  return regex.test(key);
+}
+
+export function extractDigits(pattern: string, key: string): string {
+  if (!pattern.includes(DIGIT_WILDCARD)) {
+    return '';
+  }
+  const regex = new RegExp(`^${pattern.split(DIGIT_WILDCARD).map(escapeRegex).join('(\\d)')}$`);
+  const match = key.match(regex);
+  return match ? match.slice(1).join('') : '';
+}
+
+export function describeBinding(binding: KeyBinding): string {
+  const modifiers = MODIFIERS.filter(m => binding.modifiers.includes(m)).map(m => m.toUpperCase());
+  return [...modifiers, binding.keys.join(', ')].join(' + ');
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function isModifierKey(key: string): boolean {
+  return /^(LEFT|RIGHT) (CTRL|ALT|SHIFT|META)$/.test(key);
+}
+
+// Two key patterns overlap if some physical key matches both
+function patternsOverlap(a: string, b: string): boolean {
+  if (a === b) return true;
+  for (let digit = 0; digit <= 9; digit++) {
+    const concreteA = a.split(DIGIT_WILDCARD).join(String(digit));
+    if (keyMatches(b, concreteA)) return true;
+    const concreteB = b.split(DIGIT_WILDCARD).join(String(digit));
+    if (keyMatches(a, concreteB)) return true;
+  }
+  return false;
+}
+
+function sameModifiers(a: Modifier[], b: Modifier[]): boolean {
+  return a.length === b.length && a.every(m => b.includes(m));
+}
+
+// One sequence shadows another if it overlaps the other's leading keys
+function sequencesConflict(a: string[], b: string[]): boolean {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (!patternsOverlap(a[i], b[i])) return false;
+  }
+  return true;
+}
+
+export function validateKeymap(raw: unknown, source: string): Keymap {
+  const errors: string[] = [];
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ConfigurationError([`${source}: keymap must be a JSON object`]);
+  }
+
+  const data = raw as Record<string, unknown>;
+  const sequenceTimeout = data.sequenceTimeout ?? DEFAULT_KEYMAP.sequenceTimeout;
+  if (typeof sequenceTimeout !== 'number' || sequenceTimeout < 100 || sequenceTimeout > 10000) {
+    errors.push(`${source}: sequenceTimeout must be a number between 100 and 10000`);
+  }
+  const adjustDelay = data.adjustDelay ?? DEFAULT_KEYMAP.adjustDelay;
+  if (typeof adjustDelay !== 'number' || adjustDelay < 100 || adjustDelay > 10000) {
+    errors.push(`${source}: adjustDelay must be a number between 100 and 10000`);
+  }
+
+  if (!Array.isArray(data.bindings) || data.bindings.length === 0) {
+    errors.push(`${source}: bindings must be a non-empty array`);
+    throw new ConfigurationError(errors);
+  }
+
+  const bindings: KeyBinding[] = [];
+  data.bindings.forEach((entry: unknown, index: number) => {
+    const label = `${source}: bindings[${index}]`;
+    if (typeof entry !== 'object' || entry === null) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    const { action, modifiers, keys, preset } = entry as Record<string, unknown>;
+    const bindingErrors: string[] = [];
+
+    if (!KEY_ACTIONS.includes(action as KeyAction)) {
+      bindingErrors.push(`${label}.action must be one of: ${KEY_ACTIONS.join(', ')}`);
+    }
+    if (!Array.isArray(modifiers) || modifiers.length === 0 ||
+        modifiers.some(m => !MODIFIERS.includes(String(m).toLowerCase() as Modifier))) {
+      bindingErrors.push(`${label}.modifiers must be a non-empty array of: ${MODIFIERS.join(', ')}`);
+    }
+    if (!Array.isArray(keys) || keys.length === 0 || keys.some(k => typeof k !== 'string' || k.trim() === '')) {
+      bindingErrors.push(`${label}.keys must be a non-empty array of key names`);
+    }
+    if (preset !== undefined && (action !== 'applyPreset' || typeof preset !== 'string' || preset.trim() === '')) {
+      bindingErrors.push(`${label}.preset must be a preset name, and only for applyPreset`);
+    }
+
+    if (bindingErrors.length > 0) {
+      errors.push(...bindingErrors);
+      return;
+    }
+
+    const binding: KeyBinding = {
+      action: action as KeyAction,
+      modifiers: [...new Set((modifiers as string[]).map(m => m.toLowerCase() as Modifier))],
+      keys: (keys as string[]).map(k => k.trim().toUpperCase()),
+    };
+    if (typeof preset === 'string') {
+      binding.preset = preset.trim();
+    }
+
+    if (binding.keys.some(isModifierKey)) {
+      errors.push(`${label}.keys must not contain modifier keys; use modifiers instead`);
+      return;
+    }
+
+    // A named preset binding replaces the digit that picks the preset
+    const hasDigits = binding.keys.some(k => k.includes(DIGIT_WILDCARD));
+    if (binding.preset && hasDigits) {
+      errors.push(`${label}: applyPreset with a preset name does not take digits; remove '${DIGIT_WILDCARD}'`);
+      return;
+    }
+    if (DIGIT_ACTIONS.includes(binding.action) && !hasDigits && !binding.preset) {
+      errors.push(`${label}: ${binding.action} needs at least one '${DIGIT_WILDCARD}' digit key`);
+      return;
+    }
+    if (!DIGIT_ACTIONS.includes(binding.action) && hasDigits) {
+      errors.push(`${label}: ${binding.action} does not take digits; remove '${DIGIT_WILDCARD}'`);
+      return;
+    }
+
+    bindings.push(binding);
+  });
+
+  // Reject bindings that would be triggered by the same key presses
+  for (let i = 0; i < bindings.length; i++) {
+    for (let j = i + 1; j < bindings.length; j++) {
+      const a = bindings[i];
+      const b = bindings[j];
+      if (sameModifiers(a.modifiers, b.modifiers) && sequencesConflict(a.keys, b.keys)) {
+        errors.push(
+          `${source}: binding "${describeBinding(a)}" (${a.action}) conflicts with "${describeBinding(b)}" (${b.action})`
+        );
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigurationError(errors);
+  }
+
+  return { sequenceTimeout: sequenceTimeout as number, adjustDelay: adjustDelay as number, bindings };
+}
+
+export function loadKeymap(filePath: string): Keymap {
+  const resolved = path.resolve(filePath);
+  if (!fs.existsSync(resolved)) {
+    return DEFAULT_KEYMAP;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(resolved, 'utf-8'));
+  } catch (error) {
+    throw new ConfigurationError([`${filePath}: invalid JSON (${error instanceof Error ? error.message : error})`]);
+  }
+
+  return validateKeymap(raw, filePath);
+}
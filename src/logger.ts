@@ -0,0 +1,79 @@
+import winston from 'winston';
+import 'winston-daily-rotate-file';
+import path from 'path';
+
+// Axios errors carry the whole request, including the API key; keep only the response status and body
+function omitRequestDetails(key: string, value: unknown): unknown {
+  if (key === 'config' || key === 'request') {
+    return undefined;
+  }
+  if (key === 'response' && typeof value === 'object' && value !== null) {
+    const { status, data } = value as { status?: number; data?: unknown };
+    return { status, data };
+  }
+  return value;
+}
+
+// JSON.stringify that doesn't throw on circular references
+function stringifyMeta(meta: object): string {
+  const seen = new WeakSet<object>();
+  return JSON.stringify(meta, (key, value) => {
+    const result = omitRequestDetails(key, value);
+    if (typeof result === 'object' && result !== null) {
+      if (seen.has(result)) return '[Circular]';
+      seen.add(result);
+    }
+    return result;
+  }, 2);
+}
+
+const consoleFormat = winston.format.combine(
+  winston.format.colorize(),
+  winston.format.simple(),
+  winston.format.printf(({ timestamp, level, message, ...args }) => {
+    return `${timestamp} [${level}]: ${message} ${Object.keys(args).length ? stringifyMeta(args) : ''}`;
+  })
+);
+
+export function createLogger(level: string): winston.Logger {
+  // Configure daily rotating file transport
+  const fileRotateTransport = new winston.transports.DailyRotateFile({
+    filename: path.join(process.cwd(), '.logs', 'ac-controller-%DATE%.log'),
+    datePattern: 'YYYY-MM-DD',
+    maxSize: '20m', // Rotate when file reaches 20MB
+    maxFiles: '14d', // Keep logs for 14 days
+    zippedArchive: true, // Compress rotated files
+  });
+
+  return winston.createLogger({
+    level,
+    format: winston.format.combine(
+      winston.format.timestamp(),
+      winston.format.errors({ stack: true }),
+      winston.format.json({ replacer: omitRequestDetails })
+    ),
+    transports: [
+      // Console transport with colorized output
+      new winston.transports.Console({ format: consoleFormat }),
+      // Daily rotating file transport
+      fileRotateTransport
+    ],
+  });
+}
+
+// Logger for one-shot CLI commands: everything goes to stderr so stdout stays parseable
+export function createCliLogger(level: string): winston.Logger {
+  return winston.createLogger({
+    level,
+    format: winston.format.combine(
+      winston.format.timestamp(),
+      winston.format.errors({ stack: true })
+    ),
+    transports: [
+      new winston.transports.Console({
+        format: consoleFormat,
+        stderrLevels: ['error', 'warn', 'info', 'http', 'verbose', 'debug', 'silly'],
+      }),
+    ],
+  });
+}
@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { englishText, Messages, validateMessageOverrides } from './messages.js';
+
+describe('Messages', () => {
+  it('fills in placeholders, speaking AC values in the locale\'s words', () => {
+    const messages = new Messages('en');
+
+    assert.equal(messages.format('mode.set', { mode: 'heat' }), 'Mode heat');
+    assert.equal(messages.format('swing.set', { swing: 'fixedTop' }), 'Swing fixed top');
+    assert.equal(messages.state({ on: true, mode: 'cool', targetTemperature: 24 }), 'On, cool, 24 degrees Celsius');
+    assert.equal(new Messages('he').format('mode.set', { mode: 'heat' }), 'מצב חימום');
+  });
+
+  it('leaves a placeholder without a value as it is', () => {
+    assert.equal(new Messages('en').format('preset.saved'), 'Saved as {preset}');
+  });
+
+  it('applies overrides on top of the locale, and drops them on the next setLocale', () => {
+    const messages = new Messages('he', { 'power.on': 'Air conditioner on' });
+    assert.equal(messages.format('power.on'), 'Air conditioner on');
+    assert.equal(messages.format('power.off'), new Messages('he').format('power.off'));
+
+    messages.setLocale('en');
+    assert.equal(messages.format('power.on'), englishText({ key: 'power.on' }));
+  });
+
+  it('says "in N minutes" within the hour and the time beyond it', () => {
+    const messages = new Messages('en');
+    const now = new Date(2026, 0, 1, 8, 0);
+
+    assert.equal(messages.when(new Date(2026, 0, 1, 8, 25), now), 'in 25 minutes');
+    assert.equal(messages.when(new Date(2026, 0, 1, 9, 30), now), 'at 9:30');
+  });
+});
+
+describe('validateMessageOverrides', () => {
+  it('accepts templates that use the placeholders of the message they replace', () => {
+    const errors: string[] = [];
+    const overrides = validateMessageOverrides({ 'temperature.set': 'Target {temperature}' }, 'messages', errors);
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(overrides, { 'temperature.set': 'Target {temperature}' });
+  });
+
+  it('reports unknown messages, empty templates and unknown placeholders', () => {
+    const errors: string[] = [];
+    const overrides = validateMessageOverrides({
+      'power.onn': 'On',
+      'power.off': ' ',
+      'temperature.set': 'Target {temprature}',
+      'power.on': 'AC on {device}',
+    }, 'messages', errors);
+
+    assert.deepEqual(overrides, {});
+    assert.deepEqual(errors, [
+      'messages.power.onn is not a message',
+      'messages.power.off must be a non-empty string',
+      'messages.temperature.set uses unknown placeholder {temprature} (available: {temperature})',
+      'messages.power.on uses unknown placeholder {device} (available: none)',
+    ]);
+  });
+});
@@ -0,0 +1,453 @@
+import { ACMode, ACState, FanLevel, SwingMode, TemperatureUnit } from './types.js';
+
+export const LOCALES = ['en', 'he'] as const;
+export type Locale = typeof LOCALES[number];
+
+/**
+ * English templates of everything the controller says. {name} placeholders
+ * are filled in by Messages.format; mode, fanLevel and swing placeholders
+ * take the API value (e.g. "fixedTop") and are spoken in the locale's words.
+ */
+const EN = {
+  // AC values
+  'modes.cool': 'cool',
+  'modes.heat': 'heat',
+  'modes.fan': 'fan',
+  'modes.auto': 'auto',
+  'modes.dry': 'dry',
+  'fanLevels.auto': 'auto',
+  'fanLevels.low': 'low',
+  'fanLevels.medium': 'medium',
+  'fanLevels.high': 'high',
+  'fanLevels.quiet': 'quiet',
+  'swingModes.stopped': 'stopped',
+  'swingModes.fixedTop': 'fixed top',
+  'swingModes.fixedMiddleTop': 'fixed middle top',
+  'swingModes.fixedMiddle': 'fixed middle',
+  'swingModes.fixedMiddleBottom': 'fixed middle bottom',
+  'swingModes.fixedBottom': 'fixed bottom',
+  'swingModes.rangeTop': 'range top',
+  'swingModes.rangeMiddle': 'range middle',
+  'swingModes.rangeBottom': 'range bottom',
+  'swingModes.rangeFull': 'range full',
+  'degrees.C': '{value} degrees Celsius',
+  'degrees.F': '{value} degrees Fahrenheit',
+
+  // Building blocks
+  'state.off': 'Off',
+  'state.on': 'On',
+  'state.fanLevel': 'fan {fanLevel}',
+  'state.swing': 'swing {swing}',
+  'state.noChange': 'No change',
+  'when.inMinute': 'in 1 minute',
+  'when.inMinutes': 'in {minutes} minutes',
+  'when.at': 'at {time}',
+  'devicePrefix': '{device}. {message}',
+  'alreadySet': '{message}, already set',
+  'error': 'Error: {message}',
+
+  // Operations, spoken in failures and kept in the command history
+  'operation.request': 'Request',
+  'operation.deviceDiscovery': 'Device discovery',
+  'operation.initialConnection': 'Initial API connection',
+  'operation.setTemperature': 'Set temperature',
+  'operation.scheduleTemperature': 'Schedule temperature',
+  'operation.adjustTemperature': 'Adjust temperature',
+  'operation.getStatus': 'Get status',
+  'operation.voiceStatus': 'Voice status',
+  'operation.voiceTrend': 'Voice trend',
+  'operation.getTrend': 'Get trend',
+  'operation.powerOn': 'Power on',
+  'operation.powerOnWithSync': 'Power on with sync',
+  'operation.powerOff': 'Power off',
+  'operation.powerOffWithSync': 'Power off with sync',
+  'operation.powerOffAll': 'Power off all',
+  'operation.powerOffDevice': 'Power off {device}',
+  'operation.setMode': 'Set mode',
+  'operation.setFanLevel': 'Set fan level',
+  'operation.setSwing': 'Set swing',
+  'operation.cycleMode': 'Cycle mode',
+  'operation.cycleFanLevel': 'Cycle fan level',
+  'operation.cycleSwing': 'Cycle swing',
+  'operation.applyPreset': 'Apply preset {preset}',
+  'operation.savePreset': 'Save preset',
+  'operation.setDeviceState': 'Set {device} state',
+  'operation.undo': 'Undo',
+  'operation.undoCommand': 'Undo {command}',
+  'operation.enableThermostat': 'Enable thermostat',
+  'operation.offTimer': 'Off timer',
+  'operation.setTimer': 'Set timer',
+  'operation.cancelTimer': 'Cancel timer',
+  'operation.failed': '{operation} failed',
+  'operation.superseded': '{operation} superseded',
+
+  // Command results
+  'temperature.set': 'Temperature set to {temperature}',
+  'temperature.already': 'Temperature already {temperature}',
+  'power.on': 'AC turned on',
+  'power.off': 'AC turned off',
+  'powerOffAll.done': 'All devices turned off',
+  'powerOffAll.partial': '{succeeded} of {total} devices turned off',
+  'mode.set': 'Mode {mode}',
+  'fanLevel.set': 'Fan {fanLevel}',
+  'swing.set': 'Swing {swing}',
+  'preset.applied': '{preset} preset',
+  'preset.saved': 'Saved as {preset}',
+  'preset.unknown': 'No preset {preset}',
+  'preset.unknownNumber': 'No preset number {number}',
+  'preset.invalidNumber': 'Preset number must be 1 to {max}',
+  'preset.unsavable': 'Current state is outside the limits, not saved',
+  'device.active': 'Active device {device}',
+  'device.unknown': 'Unknown device {device}',
+  'device.unknownNumber': 'No device number {number}',
+  'undo.done': '{command} undone. {state}',
+  'undo.nothing': 'Nothing to undo',
+  'thermostat.on': 'Thermostat on, holding {temperature}',
+  'thermostat.off': 'Thermostat off',
+  'thermostat.stopped': 'AC turned off, thermostat off',
+  'sleepTimer.cancelled': 'Sleep timer cancelled',
+  'sleepTimer.none': 'No sleep timer',
+  'timer.off': 'Off {when}',
+  'timer.cancelled': 'Timer cancelled',
+  'timer.none': 'No timer',
+  'schedule.set': '{temperature} at {time}',
+  'schedule.invalidTime': 'Invalid time',
+  'schedule.timer': 'Timer: {state}',
+  'schedule.rule': 'Schedule: {state}',
+  'schedule.pending': '{state} {when}',
+  'status.announced': 'Status announced',
+  'trend.announced': 'Trend announced',
+  'config.reloaded': 'Config reloaded',
+  'config.invalid': 'Config error, keeping previous settings',
+  'sensibo.reachable': 'Sensibo reachable again',
+
+  // Changes the unit can't make
+  'temperature.range': 'Temperature must be between {min} and {max}',
+  'temperature.rangeInMode': 'Temperature must be between {min} and {max} in {mode} mode',
+  'temperature.notAdjustable': 'Temperature not adjustable in {mode} mode',
+  'fanLevel.notAdjustable': 'Fan not adjustable in {mode} mode',
+  'swing.notAdjustable': 'Swing not adjustable in {mode} mode',
+  'mode.unsupported': 'Mode {mode} not supported',
+  'fanLevel.unsupported': 'Fan {fanLevel} not supported in {mode} mode',
+  'swing.unsupported': 'Swing {swing} not supported in {mode} mode',
+
+  // Failed requests
+  'error.unreachable': 'Sensibo unreachable',
+  'error.auth': 'API key rejected, check the API key in the config',
+  'error.notFound': 'Device not found, check the device ID in the config',
+  'error.rejected': '{operation} rejected by Sensibo',
+  'error.rateLimited': 'Too many requests to Sensibo, try again later',
+  'error.network': '{operation} failed, no connection to Sensibo',
+  'error.server': '{operation} failed, Sensibo server error',
+
+  // Changes made with the Sensibo app, the remote or Climate React
+  'external.turnedOn': 'AC turned on externally',
+  'external.turnedOff': 'AC turned off externally',
+  'external.changed': 'Changed externally: {changes}',
+  'external.mode': 'mode {mode}',
+  'external.target': 'target {temperature}',
+
+  // Status and trend
+  'status.off': 'AC off. Room {room}.',
+  'status.atTarget': '{temperature}. {mode}, fan {fanLevel}.',
+  'status.on': 'Target {target}. Room {room}. {mode}, fan {fanLevel}.',
+  'status.thermostat': 'Thermostat holding {target}',
+  'status.sensiboTimer': 'Sensibo timer, {state} {when}',
+  'status.acOn': 'AC is on. Target temperature: {target}.',
+  'status.acOff': 'AC is off. Target temperature: {target}.',
+  'trend.room': 'Room {room}',
+  'trend.steady': 'steady over the last {minutes} minutes',
+  'trend.risingOne': 'rising 1 degree in the last {minutes} minutes',
+  'trend.rising': 'rising {change} degrees in the last {minutes} minutes',
+  'trend.fallingOne': 'falling 1 degree in the last {minutes} minutes',
+  'trend.falling': 'falling {change} degrees in the last {minutes} minutes',
+  'trend.humidity': 'humidity {humidity} percent',
+  'trend.summary': 'Last 24 hours: low {min}, high {max}, average {avg}.',
+};
+
+export type MessageKey = keyof typeof EN;
+export type MessageOverrides = Partial<Record<MessageKey, string>>;
+export type MessageParams = Record<string, string | number | undefined>;
+
+// A message to be spoken in whatever locale is configured when it is
+export interface Message {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+const HE: Record<MessageKey, string> = {
+  'modes.cool': 'קירור',
+  'modes.heat': 'חימום',
+  'modes.fan': 'מאוורר',
+  'modes.auto': 'אוטומטי',
+  'modes.dry': 'ייבוש',
+  'fanLevels.auto': 'אוטומטי',
+  'fanLevels.low': 'נמוך',
+  'fanLevels.medium': 'בינוני',
+  'fanLevels.high': 'גבוה',
+  'fanLevels.quiet': 'שקט',
+  'swingModes.stopped': 'עצור',
+  'swingModes.fixedTop': 'קבוע למעלה',
+  'swingModes.fixedMiddleTop': 'קבוע באמצע למעלה',
+  'swingModes.fixedMiddle': 'קבוע באמצע',
+  'swingModes.fixedMiddleBottom': 'קבוע באמצע למטה',
+  'swingModes.fixedBottom': 'קבוע למטה',
+  'swingModes.rangeTop': 'תנועה למעלה',
+  'swingModes.rangeMiddle': 'תנועה באמצע',
+  'swingModes.rangeBottom': 'תנועה למטה',
+  'swingModes.rangeFull': 'תנועה מלאה',
+  'degrees.C': '{value} מעלות צלזיוס',
+  'degrees.F': '{value} מעלות פרנהייט',
+
+  'state.off': 'כבוי',
+  'state.on': 'פועל',
+  'state.fanLevel': 'מאוורר {fanLevel}',
+  'state.swing': 'כיוון {swing}',
+  'state.noChange': 'ללא שינוי',
+  'when.inMinute': 'בעוד דקה',
+  'when.inMinutes': 'בעוד {minutes} דקות',
+  'when.at': 'בשעה {time}',
+  'devicePrefix': '{device}. {message}',
+  'alreadySet': '{message}, כבר מוגדר',
+  'error': 'שגיאה: {message}',
+
+  'operation.request': 'בקשה',
+  'operation.deviceDiscovery': 'איתור מזגנים',
+  'operation.initialConnection': 'התחברות ראשונית',
+  'operation.setTemperature': 'קביעת טמפרטורה',
+  'operation.scheduleTemperature': 'תזמון טמפרטורה',
+  'operation.adjustTemperature': 'שינוי טמפרטורה',
+  'operation.getStatus': 'קריאת מצב',
+  'operation.voiceStatus': 'הקראת מצב',
+  'operation.voiceTrend': 'הקראת מגמה',
+  'operation.getTrend': 'קריאת מגמה',
+  'operation.powerOn': 'הדלקה',
+  'operation.powerOnWithSync': 'הדלקה עם סנכרון',
+  'operation.powerOff': 'כיבוי',
+  'operation.powerOffWithSync': 'כיבוי עם סנכרון',
+  'operation.powerOffAll': 'כיבוי כל המזגנים',
+  'operation.powerOffDevice': 'כיבוי {device}',
+  'operation.setMode': 'קביעת מצב',
+  'operation.setFanLevel': 'קביעת מהירות מאוורר',
+  'operation.setSwing': 'קביעת כיוון',
+  'operation.cycleMode': 'החלפת מצב',
+  'operation.cycleFanLevel': 'החלפת מהירות מאוורר',
+  'operation.cycleSwing': 'החלפת כיוון',
+  'operation.applyPreset': 'הפעלת הגדרה {preset}',
+  'operation.savePreset': 'שמירת הגדרה',
+  'operation.setDeviceState': 'עדכון {device}',
+  'operation.undo': 'ביטול',
+  'operation.undoCommand': 'ביטול {command}',
+  'operation.enableThermostat': 'הפעלת תרמוסטט',
+  'operation.offTimer': 'טיימר כיבוי',
+  'operation.setTimer': 'קביעת טיימר',
+  'operation.cancelTimer': 'ביטול טיימר',
+  'operation.failed': '{operation} נכשל',
+  'operation.superseded': '{operation} הוחלף',
+
+  'temperature.set': 'טמפרטורה {temperature}',
+  'temperature.already': 'הטמפרטורה כבר {temperature}',
+  'power.on': 'המזגן הודלק',
+  'power.off': 'המזגן כובה',
+  'powerOffAll.done': 'כל המזגנים כובו',
+  'powerOffAll.partial': '{succeeded} מתוך {total} מזגנים כובו',
+  'mode.set': 'מצב {mode}',
+  'fanLevel.set': 'מאוורר {fanLevel}',
+  'swing.set': 'כיוון {swing}',
+  'preset.applied': 'הגדרה {preset}',
+  'preset.saved': 'נשמר בשם {preset}',
+  'preset.unknown': 'אין הגדרה {preset}',
+  'preset.unknownNumber': 'אין הגדרה מספר {number}',
+  'preset.invalidNumber': 'מספר ההגדרה חייב להיות בין 1 ל-{max}',
+  'preset.unsavable': 'המצב הנוכחי מחוץ לטווח, לא נשמר',
+  'device.active': 'מזגן פעיל {device}',
+  'device.unknown': 'מזגן לא מוכר {device}',
+  'device.unknownNumber': 'אין מזגן מספר {number}',
+  'undo.done': '{command} בוטל. {state}',
+  'undo.nothing': 'אין מה לבטל',
+  'thermostat.on': 'תרמוסטט פועל, שומר על {temperature}',
+  'thermostat.off': 'תרמוסטט כבוי',
+  'thermostat.stopped': 'המזגן כובה, תרמוסטט כבוי',
+  'sleepTimer.cancelled': 'טיימר השינה בוטל',
+  'sleepTimer.none': 'אין טיימר שינה',
+  'timer.off': 'כיבוי {when}',
+  'timer.cancelled': 'הטיימר בוטל',
+  'timer.none': 'אין טיימר',
+  'schedule.set': '{temperature} בשעה {time}',
+  'schedule.invalidTime': 'שעה לא תקינה',
+  'schedule.timer': 'טיימר: {state}',
+  'schedule.rule': 'תזמון: {state}',
+  'schedule.pending': '{state} {when}',
+  'status.announced': 'המצב הוקרא',
+  'trend.announced': 'המגמה הוקראה',
+  'config.reloaded': 'ההגדרות נטענו מחדש',
+  'config.invalid': 'שגיאה בהגדרות, ההגדרות הקודמות נשארות',
+  'sensibo.reachable': 'החיבור לסנסיבו חזר',
+
+  'temperature.range': 'הטמפרטורה חייבת להיות בין {min} ל-{max}',
+  'temperature.rangeInMode': 'במצב {mode} הטמפרטורה חייבת להיות בין {min} ל-{max}',
+  'temperature.notAdjustable': 'אי אפשר לשנות טמפרטורה במצב {mode}',
+  'fanLevel.notAdjustable': 'אי אפשר לשנות מהירות מאוורר במצב {mode}',
+  'swing.notAdjustable': 'אי אפשר לשנות כיוון במצב {mode}',
+  'mode.unsupported': 'מצב {mode} לא נתמך',
+  'fanLevel.unsupported': 'מאוורר {fanLevel} לא נתמך במצב {mode}',
+  'swing.unsupported': 'כיוון {swing} לא נתמך במצב {mode}',
+
+  'error.unreachable': 'אין חיבור לסנסיבו',
+  'error.auth': 'מפתח ה-API נדחה, בדקו את המפתח בהגדרות',
+  'error.notFound': 'המזגן לא נמצא, בדקו את מזהה המזגן בהגדרות',
+  'error.rejected': '{operation} נדחה על ידי סנסיבו',
+  'error.rateLimited': 'יותר מדי בקשות לסנסיבו, נסו שוב מאוחר יותר',
+  'error.network': '{operation} נכשל, אין חיבור לסנסיבו',
+  'error.server': '{operation} נכשל, שגיאת שרת בסנסיבו',
+
+  'external.turnedOn': 'המזגן הודלק מבחוץ',
+  'external.turnedOff': 'המזגן כובה מבחוץ',
+  'external.changed': 'שונה מבחוץ: {changes}',
+  'external.mode': 'מצב {mode}',
+  'external.target': 'יעד {temperature}',
+
+  'status.off': 'המזגן כבוי. בחדר {room}.',
+  'status.atTarget': '{temperature}. {mode}, מאוורר {fanLevel}.',
+  'status.on': 'יעד {target}. בחדר {room}. {mode}, מאוורר {fanLevel}.',
+  'status.thermostat': 'תרמוסטט שומר על {target}',
+  'status.sensiboTimer': 'טיימר סנסיבו, {state} {when}',
+  'status.acOn': 'המזגן פועל. טמפרטורת יעד: {target}.',
+  'status.acOff': 'המזגן כבוי. טמפרטורת יעד: {target}.',
+  'trend.room': 'בחדר {room}',
+  'trend.steady': 'יציב ב-{minutes} הדקות האחרונות',
+  'trend.risingOne': 'עלה במעלה אחת ב-{minutes} הדקות האחרונות',
+  'trend.rising': 'עלה ב-{change} מעלות ב-{minutes} הדקות האחרונות',
+  'trend.fallingOne': 'ירד במעלה אחת ב-{minutes} הדקות האחרונות',
+  'trend.falling': 'ירד ב-{change} מעלות ב-{minutes} הדקות האחרונות',
+  'trend.humidity': 'לחות {humidity} אחוז',
+  'trend.summary': 'ב-24 השעות האחרונות: מינימום {min}, מקסימום {max}, ממוצע {avg}.',
+};
+
+// Catalogs may leave out templates; those fall back to English
+const CATALOGS: Record<Locale, Partial<Record<MessageKey, string>>> = { en: EN, he: HE };
+
+// Placeholders that take an AC value, and the catalog prefix of the value's words
+const VALUE_PLACEHOLDERS: Record<string, string> = { mode: 'modes', fanLevel: 'fanLevels', swing: 'swingModes' };
+
+function placeholders(template: string): string[] {
+  return [...template.matchAll(/\{(\w+)\}/g)].map(match => match[1]);
+}
+
+/**
+ * Checks the message overrides from the config file: each key must be a
+ * message, and each template may only use the placeholders of the message
+ * it replaces. Problems are appended to errors, prefixed with label.
+ */
+export function validateMessageOverrides(raw: unknown, label: string, errors: string[]): MessageOverrides {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    errors.push(`${label} must be an object of message templates`);
+    return {};
+  }
+
+  const overrides: MessageOverrides = {};
+  Object.entries(raw).forEach(([key, template]) => {
+    if (!(key in EN)) {
+      errors.push(`${label}.${key} is not a message`);
+      return;
+    }
+    if (typeof template !== 'string' || template.trim() === '') {
+      errors.push(`${label}.${key} must be a non-empty string`);
+      return;
+    }
+    const allowed = placeholders(EN[key as MessageKey]);
+    const unknown = placeholders(template).filter(name => !allowed.includes(name));
+    if (unknown.length > 0) {
+      const available = allowed.length > 0 ? allowed.map(name => `{${name}}`).join(', ') : 'none';
+      errors.push(`${label}.${key} uses unknown placeholder {${unknown[0]}} (available: ${available})`);
+      return;
+    }
+    overrides[key as MessageKey] = template;
+  });
+  return overrides;
+}
+
+/**
+ * The templates of one locale, with the overrides from the config file on
+ * top. Shared by everything that speaks, so a reload changes the locale
+ * everywhere at once.
+ */
+export class Messages {
+  private templates: Record<MessageKey, string> = EN;
+
+  constructor(locale: Locale = 'en', overrides: MessageOverrides = {}) {
+    this.setLocale(locale, overrides);
+  }
+
+  setLocale(locale: Locale, overrides: MessageOverrides = {}): void {
+    this.templates = { ...EN, ...CATALOGS[locale], ...overrides };
+  }
+
+  // Fills in a template; a placeholder without a value is left as it is
+  format(key: MessageKey, params: MessageParams = {}): string {
+    return this.templates[key].replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) {
+        return placeholder;
+      }
+      const valueKey = `${VALUE_PLACEHOLDERS[name]}.${value}`;
+      return name in VALUE_PLACEHOLDERS && valueKey in this.templates
+        ? this.templates[valueKey as MessageKey]
+        : String(value);
+    });
+  }
+
+  text(message: Message): string {
+    return this.format(message.key, message.params);
+  }
+
+  // e.g. "24 degrees Celsius"
+  degrees(value: number, unit: TemperatureUnit): string {
+    return this.format(`degrees.${unit}`, { value });
+  }
+
+  mode(mode: ACMode): string {
+    return this.format(`modes.${mode}`);
+  }
+
+  fanLevel(fanLevel: FanLevel): string {
+    return this.format(`fanLevels.${fanLevel}`);
+  }
+
+  swing(swing: SwingMode): string {
+    return this.format(`swingModes.${swing}`);
+  }
+
+  // Short description of a state change, e.g. "Off" or "On, cool, 24 degrees Celsius"
+  state(state: Partial<ACState>): string {
+    if (state.on === false) {
+      return this.format('state.off');
+    }
+
+    const parts: string[] = [];
+    if (state.on === true) parts.push(this.format('state.on'));
+    if (state.mode) parts.push(this.mode(state.mode));
+    if (state.targetTemperature !== undefined) {
+      parts.push(this.degrees(state.targetTemperature, state.temperatureUnit ?? 'C'));
+    }
+    if (state.fanLevel) parts.push(this.format('state.fanLevel', { fanLevel: state.fanLevel }));
+    if (state.swing) parts.push(this.format('state.swing', { swing: state.swing }));
+    return parts.join(', ');
+  }
+
+  // "in 25 minutes" within the hour, "at 8:30" beyond it
+  when(at: Date, now: Date = new Date()): string {
+    const minutes = Math.max(1, Math.round((at.getTime() - now.getTime()) / 60000));
+    if (minutes < 60) {
+      return minutes === 1 ? this.format('when.inMinute') : this.format('when.inMinutes', { minutes });
+    }
+    return this.format('when.at', { time: `${at.getHours()}:${String(at.getMinutes()).padStart(2, '0')}` });
+  }
+}
+
+const ENGLISH = new Messages('en');
+
+// English text of a message, for error messages and logs that are not spoken
+export function englishText(message: Message): string {
+  return ENGLISH.text(message);
+}
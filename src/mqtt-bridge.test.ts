@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseCommand } from './mqtt-bridge.js';
+import { ACState, TemperatureUnit } from './types.js';
+
+const LIMITS = { minTemp: 18, maxTemp: 30 };
+
+// State for the payload on ac/living/<property>/set, or the errors
+function parse(property: string | null, payload: string, unit: TemperatureUnit = 'C'): Partial<ACState> | string[] {
+  const errors: string[] = [];
+  const state = parseCommand(property, payload, 'ac/living/set', unit, LIMITS, errors);
+  return errors.length > 0 ? errors : state;
+}
+
+describe('MQTT parseCommand', () => {
+  it('parses a JSON state on the set topic', () => {
+    assert.deepEqual(parse(null, '{"on": true, "mode": "cool", "fanLevel": "high"}'), { on: true, mode: 'cool', fanLevel: 'high' });
+    assert.deepEqual(parse(null, 'on'), ['ac/living/set payload must be a JSON object']);
+    assert.equal((parse(null, '{"targetTemperature": 40}') as string[]).length, 1);
+  });
+
+  it('parses power in any case', () => {
+    assert.deepEqual(parse('power', 'ON'), { on: true });
+    assert.deepEqual(parse('power', ' off '), { on: false });
+    assert.deepEqual(parse('power', '1'), ['power must be ON or OFF']);
+  });
+
+  it('maps the Home Assistant modes', () => {
+    assert.deepEqual(parse('mode', 'off'), { on: false });
+    assert.deepEqual(parse('mode', 'fan_only'), { on: true, mode: 'fan' });
+    assert.deepEqual(parse('mode', 'heat'), { on: true, mode: 'heat' });
+    assert.equal((parse('mode', 'turbo') as string[]).length, 1);
+  });
+
+  it('rounds a temperature and checks it in the device unit', () => {
+    assert.deepEqual(parse('temperature', '24.4'), { targetTemperature: 24, temperatureUnit: 'C' });
+    assert.deepEqual(parse('temperature', '75', 'F'), { targetTemperature: 75, temperatureUnit: 'F' });
+    assert.deepEqual(parse('temperature', '75'), ['temperature must be between 18 and 30']);
+    assert.equal((parse('temperature', '') as string[]).length, 1);
+    assert.equal((parse('temperature', 'warm') as string[]).length, 1);
+  });
+
+  it('checks fan levels, swing and unknown properties', () => {
+    assert.deepEqual(parse('fan', 'medium'), { fanLevel: 'medium' });
+    assert.equal((parse('fan', 'max') as string[]).length, 1);
+    assert.deepEqual(parse('swing', 'rangeFull'), { swing: 'rangeFull' });
+    assert.deepEqual(parse('light', 'on'), ['unknown property light']);
+  });
+});
@@ -0,0 +1,299 @@
+import { connect, MqttClient } from 'mqtt';
+import winston from 'winston';
+import { SensiboAPI } from './sensibo-api.js';
+import {
+  AC_MODES, ACMode, ACState, CommandResult, CommandSource, Device, FAN_LEVELS, FanLevel, MqttConfig, SWING_MODES, SwingMode,
+  TemperatureUnit,
+} from './types.js';
+import { convertTemperature, limitsFor, TemperatureLimits, validatePartialState } from './ac-state.js';
+import { StateChangedEvent } from './state-cache.js';
+
+export interface MqttCommands {
+  setDeviceState(deviceId: string, state: Partial<ACState>, source: CommandSource): Promise<CommandResult>;
+}
+
+// Home Assistant calls the fan mode "fan_only" and power off a mode of its own
+const HA_MODES = ['off', ...AC_MODES.map(mode => mode === 'fan' ? 'fan_only' : mode)];
+
+/**
+ * Partial state for a command payload on topic, for the property in the
+ * topic (null for a JSON state on the set topic). unit is the device's, in
+ * which a bare temperature is meant. Problems are appended to errors.
+ */
+export function parseCommand(
+  property: string | null,
+  payload: string,
+  topic: string,
+  unit: TemperatureUnit,
+  limits: TemperatureLimits,
+  errors: string[]
+): Partial<ACState> {
+  const value = payload.trim();
+
+  switch (property) {
+    case null: {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(value);
+      } catch {
+        errors.push(`${topic} payload must be a JSON object`);
+        return {};
+      }
+      return validatePartialState(raw, topic, limits, errors);
+    }
+    case 'power':
+      if (value.toUpperCase() === 'ON' || value.toUpperCase() === 'OFF') {
+        return { on: value.toUpperCase() === 'ON' };
+      }
+      errors.push('power must be ON or OFF');
+      return {};
+    case 'mode': {
+      if (value === 'off') {
+        return { on: false };
+      }
+      const mode = (value === 'fan_only' ? 'fan' : value) as ACMode;
+      if (AC_MODES.includes(mode)) {
+        return { on: true, mode };
+      }
+      errors.push(`mode must be one of: ${HA_MODES.join(', ')}`);
+      return {};
+    }
+    case 'temperature': {
+      // Home Assistant sends "24.0"; the target is a whole number in the device's unit
+      const unitLimits = limitsFor(limits, unit);
+      const temperature = Math.round(Number(value));
+      if (value !== '' && temperature >= unitLimits.minTemp && temperature <= unitLimits.maxTemp) {
+        return { targetTemperature: temperature, temperatureUnit: unit };
+      }
+      errors.push(`temperature must be between ${unitLimits.minTemp} and ${unitLimits.maxTemp}`);
+      return {};
+    }
+    case 'fan':
+      if (FAN_LEVELS.includes(value as FanLevel)) {
+        return { fanLevel: value as FanLevel };
+      }
+      errors.push(`fan must be one of: ${FAN_LEVELS.join(', ')}`);
+      return {};
+    case 'swing':
+      if (SWING_MODES.includes(value as SwingMode)) {
+        return { swing: value as SwingMode };
+      }
+      errors.push(`swing must be one of: ${SWING_MODES.join(', ')}`);
+      return {};
+    default:
+      errors.push(`unknown property ${property}`);
+      return {};
+  }
+}
+
+/**
+ * Publishes AC state and room measurements to an MQTT broker and applies
+ * commands received on the set topics. Topics, per device id:
+ *
+ *   <prefix>/<id>/state                 ACState as JSON (retained)
+ *   <prefix>/<id>/measurement           Room temperature and humidity (retained)
+ *   <prefix>/<id>/set                   Partial ACState as JSON
+ *   <prefix>/<id>/<property>/set        power, mode, temperature, fan or swing
+ *
+ * With discovery enabled each device also appears in Home Assistant as a
+ * climate entity.
+ */
+export class MqttBridge {
+  private logger: winston.Logger;
+  private client: MqttClient | null = null;
+  private devices: Device[] = [];
+  private publishTimer: NodeJS.Timeout | null = null;
+  private publishing = false;
+  private onStateChanged = (event: StateChangedEvent) => this.publishChange(event);
+
+  constructor(
+    private config: MqttConfig,
+    private limits: TemperatureLimits,
+    private sensiboAPI: SensiboAPI,
+    private commands: MqttCommands,
+    logger: winston.Logger
+  ) {
+    this.logger = logger;
+  }
+
+  start(devices: Device[]): void {
+    this.devices = devices;
+    const client = connect(this.config.url, {
+      username: this.config.username,
+      password: this.config.password,
+      will: { topic: this.availabilityTopic(), payload: Buffer.from('offline'), qos: 1, retain: true },
+    });
+    this.client = client;
+
+    // Fires again after every reconnect; retained messages may have been lost with the broker
+    client.on('connect', () => {
+      this.logger.info(`Connected to MQTT broker ${this.config.url}`);
+      client.publish(this.availabilityTopic(), 'online', { qos: 1, retain: true });
+      const topics = [`${this.config.topicPrefix}/+/set`, `${this.config.topicPrefix}/+/+/set`];
+      if (this.config.discoveryPrefix) {
+        topics.push(`${this.config.discoveryPrefix}/status`);
+      }
+      client.subscribe(topics, { qos: 1 });
+      this.publishAll();
+    });
+    client.on('message', (topic, payload) => this.handleMessage(topic, payload.toString()));
+    client.on('offline', () => this.logger.warn('MQTT broker unreachable, reconnecting'));
+    client.on('error', error => this.logger.error('MQTT error:', error.message));
+
+    this.sensiboAPI.stateCache.on('stateChanged', this.onStateChanged);
+    this.publishTimer = setInterval(() => this.publishMeasurements(), this.config.publishInterval * 1000);
+  }
+
+  async stop(): Promise<void> {
+    if (this.publishTimer) {
+      clearInterval(this.publishTimer);
+      this.publishTimer = null;
+    }
+    this.sensiboAPI.stateCache.off('stateChanged', this.onStateChanged);
+    if (this.client) {
+      const client = this.client;
+      this.client = null;
+      if (client.connected) {
+        await client.publishAsync(this.availabilityTopic(), 'offline', { qos: 1, retain: true });
+      }
+      await client.endAsync();
+      this.logger.info('MQTT bridge stopped');
+    }
+  }
+
+  private async publishAll(): Promise<void> {
+    for (const device of this.devices) {
+      try {
+        // Also learns the device's unit, which the discovery payload needs
+        const state = await this.sensiboAPI.getCurrentState(device.id);
+        this.publishDiscovery(device);
+        this.publishState(device.id, state);
+      } catch {
+        // Logged by SensiboAPI; the state is published with the next change
+        this.logger.debug(`MQTT: state of ${device.name} unavailable`);
+      }
+    }
+    await this.publishMeasurements();
+  }
+
+  // Every state change, whether made by the controller or elsewhere
+  private publishChange({ deviceId, current, diff }: StateChangedEvent): void {
+    const device = this.devices.find(candidate => candidate.id === deviceId);
+    if (device && diff.temperatureUnit) {
+      this.publishDiscovery(device);
+    }
+    this.publishState(deviceId, current);
+  }
+
+  private publishState(deviceId: string, state: ACState): void {
+    this.publish(`${this.deviceTopic(deviceId)}/state`, JSON.stringify(state));
+  }
+
+  private async publishMeasurements(): Promise<void> {
+    // Skip if the previous round is still waiting on the API
+    if (this.publishing || !this.client?.connected) return;
+    this.publishing = true;
+
+    try {
+      for (const device of this.devices) {
+        try {
+          const measurement = await this.sensiboAPI.getMeasurement(device.id);
+          // Sensibo measures in Celsius; the entity shows everything in the device's unit
+          const unit = this.sensiboAPI.getTemperatureUnit(device.id);
+          const temperature = convertTemperature(measurement.temperature, 'C', unit);
+          this.publish(`${this.deviceTopic(device.id)}/measurement`, JSON.stringify({
+            temperature: Math.round(temperature * 10) / 10,
+            temperatureUnit: unit,
+            humidity: measurement.humidity,
+            time: measurement.time.time,
+          }));
+        } catch {
+          this.logger.debug(`MQTT: measurement of ${device.name} unavailable`);
+        }
+      }
+    } finally {
+      this.publishing = false;
+    }
+  }
+
+  private publishDiscovery(device: Device): void {
+    if (!this.config.discoveryPrefix) return;
+
+    const base = this.deviceTopic(device.id);
+    const unit = this.sensiboAPI.getTemperatureUnit(device.id);
+    const limits = limitsFor(this.limits, unit);
+    const config = {
+      name: null, // Entity takes the device name
+      unique_id: `sensibo_${device.id}_climate`,
+      device: { identifiers: [`sensibo_${device.id}`], name: device.name, manufacturer: 'Sensibo' },
+      availability_topic: this.availabilityTopic(),
+      modes: HA_MODES,
+      mode_state_topic: `${base}/state`,
+      mode_state_template: "{{ 'off' if not value_json.on else ('fan_only' if value_json.mode == 'fan' else value_json.mode) }}",
+      mode_command_topic: `${base}/mode/set`,
+      power_command_topic: `${base}/power/set`,
+      temperature_state_topic: `${base}/state`,
+      temperature_state_template: '{{ value_json.targetTemperature }}',
+      temperature_command_topic: `${base}/temperature/set`,
+      temperature_unit: unit,
+      min_temp: limits.minTemp,
+      max_temp: limits.maxTemp,
+      temp_step: 1,
+      precision: 0.1,
+      current_temperature_topic: `${base}/measurement`,
+      current_temperature_template: '{{ value_json.temperature }}',
+      current_humidity_topic: `${base}/measurement`,
+      current_humidity_template: '{{ value_json.humidity }}',
+      fan_modes: FAN_LEVELS,
+      fan_mode_state_topic: `${base}/state`,
+      fan_mode_state_template: '{{ value_json.fanLevel }}',
+      fan_mode_command_topic: `${base}/fan/set`,
+      swing_modes: SWING_MODES,
+      swing_mode_state_topic: `${base}/state`,
+      swing_mode_state_template: "{{ value_json.swing | default('stopped') }}",
+      swing_mode_command_topic: `${base}/swing/set`,
+    };
+    this.publish(`${this.config.discoveryPrefix}/climate/sensibo_${device.id}/config`, JSON.stringify(config));
+  }
+
+  private async handleMessage(topic: string, payload: string): Promise<void> {
+    // Home Assistant restarted: announce the entities again
+    if (this.config.discoveryPrefix && topic === `${this.config.discoveryPrefix}/status`) {
+      if (payload === 'online') {
+        this.publishAll();
+      }
+      return;
+    }
+
+    const [deviceId, ...rest] = topic.slice(this.config.topicPrefix.length + 1).split('/');
+    const property = rest.length === 2 ? rest[0] : null;
+    if (!this.devices.some(device => device.id === deviceId)) {
+      this.logger.warn(`MQTT: command for unknown device ${deviceId} on ${topic}`);
+      return;
+    }
+
+    this.logger.info(`MQTT command on ${topic}: ${payload}`);
+    const errors: string[] = [];
+    const state = parseCommand(property, payload, topic, this.sensiboAPI.getTemperatureUnit(deviceId), this.limits, errors);
+    if (errors.length > 0) {
+      this.logger.warn(`MQTT: ignoring command on ${topic}: ${errors.join(', ')}`);
+      return;
+    }
+    const result = await this.commands.setDeviceState(deviceId, state, 'mqtt');
+    if (!result.success && !result.superseded) {
+      this.logger.warn(`MQTT command on ${topic} failed: ${result.message}`);
+    }
+  }
+
+  private publish(topic: string, payload: string): void {
+    this.client?.publish(topic, payload, { qos: 1, retain: true });
+  }
+
+  private deviceTopic(deviceId: string): string {
+    return `${this.config.topicPrefix}/${deviceId}`;
+  }
+
+  private availabilityTopic(): string {
+    return `${this.config.topicPrefix}/status`;
+  }
+}
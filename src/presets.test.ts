@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { validatePartialState } from './ac-state.js';
+import { PresetStore } from './presets.js';
+import { silentLogger } from './test-support.js';
+import { ACState, ConfigurationError } from './types.js';
+
+const LIMITS = { minTemp: 18, maxTemp: 30 };
+const STATE: ACState = { on: true, mode: 'cool', fanLevel: 'auto', targetTemperature: 24, temperatureUnit: 'C', swing: 'stopped' };
+
+describe('validatePartialState', () => {
+  it('accepts a valid state', () => {
+    const errors: string[] = [];
+    const state = validatePartialState({ on: true, mode: 'heat', targetTemperature: 22 }, 'state', LIMITS, errors);
+
+    assert.deepEqual(errors, []);
+    assert.equal(state.mode, 'heat');
+    assert.equal(state.targetTemperature, 22);
+  });
+
+  it('checks the target against the limits in the unit it is written in', () => {
+    const errors: string[] = [];
+    validatePartialState({ targetTemperature: 75, temperatureUnit: 'F' }, 'state', LIMITS, errors);
+    validatePartialState({ targetTemperature: 16 }, 'low', LIMITS, errors);
+
+    assert.deepEqual(errors, ['low.targetTemperature must be a whole number between 18 and 30 (C)']);
+  });
+
+  it('reports unknown values and properties', () => {
+    const errors: string[] = [];
+    validatePartialState({ on: 'yes', mode: 'turbo', color: 'blue' }, 'state', LIMITS, errors);
+
+    assert.equal(errors.length, 3);
+  });
+});
+
+describe('PresetStore', () => {
+  let dir: string;
+  let file: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'presets-test-'));
+    file = path.join(dir, 'presets.json');
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('saves the current state to a new slot, and loads it again', () => {
+    const store = new PresetStore(file, LIMITS, silentLogger);
+    const preset = store.save(1, STATE);
+
+    assert.equal(preset?.name, 'Preset 1');
+    const loaded = new PresetStore(file, LIMITS, silentLogger);
+    loaded.load();
+    assert.deepEqual(loaded.find('preset 1')?.state, preset?.state);
+  });
+
+  it('refuses a slot past the next free one', () => {
+    const store = new PresetStore(file, LIMITS, silentLogger);
+
+    assert.equal(store.save(2, STATE), null);
+    assert.ok(!fs.existsSync(file));
+  });
+
+  it('does not write a state the file would not load with', () => {
+    const store = new PresetStore(file, LIMITS, silentLogger);
+    store.save(1, STATE);
+
+    assert.throws(() => store.save(1, { ...STATE, targetTemperature: 16 }), ConfigurationError);
+    assert.throws(() => store.save(2, { ...STATE, targetTemperature: 16 }), ConfigurationError);
+    const loaded = new PresetStore(file, LIMITS, silentLogger);
+    loaded.load();
+    assert.equal(loaded.getPresets().length, 1);
+    assert.equal(loaded.get(1)?.state.targetTemperature, 24);
+  });
+});
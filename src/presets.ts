@@ -0,0 +1,151 @@
+import fs from 'fs';
+import path from 'path';
+import winston from 'winston';
+import { ACState, ConfigurationError } from './types.js';
+import { TemperatureLimits, validatePartialState } from './ac-state.js';
+
+export interface Preset {
+  name: string;
+  state: Partial<ACState>;
+}
+
+interface PresetFile {
+  presets: Preset[];
+}
+
+// Properties copied when the current state is saved as a preset
+const SAVED_PROPERTIES = ['on', 'mode', 'targetTemperature', 'temperatureUnit', 'fanLevel', 'swing'] as const;
+
+/**
+ * Named AC states ("scenes") from the presets file. Presets are numbered in
+ * file order, starting at 1, for the digit hotkeys.
+ */
+export class PresetStore {
+  private logger: winston.Logger;
+  private presets: Preset[] = [];
+
+  constructor(private filePath: string, private limits: TemperatureLimits, logger: winston.Logger) {
+    this.logger = logger;
+  }
+
+  load(): void {
+    const resolved = path.resolve(this.filePath);
+    if (!fs.existsSync(resolved)) {
+      return;
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(resolved, 'utf-8'));
+    } catch (error) {
+      throw new ConfigurationError([`${this.filePath}: invalid JSON (${error instanceof Error ? error.message : error})`]);
+    }
+
+    this.presets = this.validate(raw);
+    this.logger.info(`Loaded ${this.presets.length} preset(s): ${this.presets.map(preset => preset.name).join(', ')}`);
+  }
+
+  getPresets(): Preset[] {
+    return this.presets;
+  }
+
+  // 1-based position, as entered on the hotkeys
+  get(position: number): Preset | null {
+    return this.presets[position - 1] ?? null;
+  }
+
+  find(name: string): Preset | null {
+    const lower = name.toLowerCase();
+    return this.presets.find(preset => preset.name.toLowerCase() === lower) ?? null;
+  }
+
+  /**
+   * Stores a device state in slot position: an existing preset keeps its
+   * name, the slot after the last one creates "Preset N". Returns null for
+   * any other position. A state that load() would reject, such as a target
+   * outside the temperature limits, throws ConfigurationError and is not
+   * written, so the file keeps loading at the next start.
+   */
+  save(position: number, state: ACState): Preset | null {
+    if (position < 1 || position > this.presets.length + 1) {
+      return null;
+    }
+
+    const copied: Record<string, unknown> = {};
+    SAVED_PROPERTIES.forEach(property => {
+      if (state[property] !== undefined) {
+        copied[property] = state[property];
+      }
+    });
+
+    const existing = this.presets[position - 1];
+    const name = existing?.name ?? `Preset ${position}`;
+    const errors: string[] = [];
+    const saved = validatePartialState(copied, `${this.filePath}: preset ${name}`, this.limits, errors);
+    if (errors.length > 0) {
+      throw new ConfigurationError(errors);
+    }
+
+    const preset: Preset = { name, state: saved };
+    this.presets[position - 1] = preset;
+    this.write();
+    this.logger.info(`Saved preset ${preset.name}`, preset.state);
+    return preset;
+  }
+
+  // Writes the file atomically so a crash can't leave it half-written
+  private write(): void {
+    const resolved = path.resolve(this.filePath);
+    const data: PresetFile = { presets: this.presets };
+    const tempPath = `${resolved}.tmp`;
+    try {
+      fs.writeFileSync(tempPath, JSON.stringify(data, null, 2) + '\n');
+      fs.renameSync(tempPath, resolved);
+    } catch (error) {
+      this.logger.error(`Failed to save presets file ${this.filePath}:`, error);
+    }
+  }
+
+  private validate(raw: unknown): Preset[] {
+    const source = this.filePath;
+    const errors: string[] = [];
+
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      throw new ConfigurationError([`${source}: presets file must be a JSON object`]);
+    }
+
+    const data = raw as Record<string, unknown>;
+    if (!Array.isArray(data.presets)) {
+      throw new ConfigurationError([`${source}: presets must be an array`]);
+    }
+
+    const presets: Preset[] = [];
+    (data.presets as unknown[]).forEach((entry, index) => {
+      const label = `${source}: presets[${index}]`;
+      if (typeof entry !== 'object' || entry === null) {
+        errors.push(`${label} must be an object`);
+        return;
+      }
+      const { name, state } = entry as Record<string, unknown>;
+      const presetErrors: string[] = [];
+
+      if (typeof name !== 'string' || name.trim() === '') {
+        presetErrors.push(`${label}.name must be a non-empty string`);
+      } else if (presets.some(preset => preset.name.toLowerCase() === name.trim().toLowerCase())) {
+        presetErrors.push(`${label}.name "${name}" is used by another preset`);
+      }
+      const validState = validatePartialState(state, `${label}.state`, this.limits, presetErrors);
+
+      if (presetErrors.length > 0) {
+        errors.push(...presetErrors);
+        return;
+      }
+      presets.push({ name: (name as string).trim(), state: validState });
+    });
+
+    if (errors.length > 0) {
+      throw new ConfigurationError(errors);
+    }
+    return presets;
+  }
+}
@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { CircuitOpenError } from './circuit-breaker.js';
+import { withRetry } from './retry.js';
+import { SensiboServerError } from './sensibo-errors.js';
+import { silentLogger, startSimulator, TestSimulator } from './test-support.js';
+
+const POLICY = { maxRetries: 3, retryDelay: 10 };
+
+describe('withRetry against the simulator', () => {
+  let sim: TestSimulator;
+  before(async () => { sim = await startSimulator(); });
+  after(() => sim.stop());
+
+  it('retries a server error until the request succeeds', async () => {
+    sim.simulator.setFaults({ failureRate: 1 });
+    const api = sim.api();
+    let attempts = 0;
+    const failures: unknown[] = [];
+
+    const state = await withRetry(async () => {
+      attempts++;
+      if (attempts === 2) {
+        sim.simulator.setFaults({ failureRate: 0 });
+      }
+      return api.getCurrentState();
+    }, 'Get state', POLICY, silentLogger, async (_name, error) => { failures.push(error); });
+
+    assert.equal(attempts, 2);
+    assert.equal(state?.on, false);
+    assert.equal(failures.length, 0);
+  });
+
+  it('gives up after the last attempt and reports the error', async () => {
+    sim.simulator.setFaults({ failureRate: 1 });
+    const api = sim.api();
+    let attempts = 0;
+    const failures: unknown[] = [];
+
+    const state = await withRetry(async () => {
+      attempts++;
+      return api.getCurrentState();
+    }, 'Get state', POLICY, silentLogger, async (_name, error) => { failures.push(error); });
+    sim.simulator.setFaults({ failureRate: 0 });
+
+    assert.equal(state, null);
+    assert.equal(attempts, 3);
+    assert.equal(failures.length, 1);
+    assert.ok(failures[0] instanceof SensiboServerError);
+  });
+
+  it('does not retry a change the unit does not support', async () => {
+    const api = sim.api();
+    let attempts = 0;
+
+    const changed = await withRetry(async () => {
+      attempts++;
+      return api.setACState({ targetTemperature: 40 });
+    }, 'Set temperature', POLICY, silentLogger);
+
+    assert.equal(changed, null);
+    assert.equal(attempts, 1);
+  });
+
+  it('stops once the circuit opens, and closes it when the API answers again', async () => {
+    sim.simulator.setFaults({ failureRate: 1 });
+    const api = sim.api({ circuitBreaker: { failureThreshold: 2, resetTimeout: 1.5 } });
+    const events: string[] = [];
+    api.circuitBreaker.on('open', () => events.push('open'));
+    api.circuitBreaker.on('close', () => events.push('close'));
+    const failures: unknown[] = [];
+    sim.requests.length = 0;
+
+    const state = await withRetry(
+      () => api.getCurrentState(), 'Get state', POLICY, silentLogger, async (_name, error) => { failures.push(error); }
+    );
+
+    // The third attempt, within the reset timeout, is refused without a request
+    assert.equal(state, null);
+    assert.equal(sim.requests.length, 2);
+    assert.deepEqual(events, ['open']);
+    assert.ok(failures[0] instanceof CircuitOpenError);
+
+    sim.simulator.setFaults({ failureRate: 0 });
+    await new Promise(resolve => setTimeout(resolve, 1500));
+    assert.equal((await api.getCurrentState()).on, false);
+    assert.deepEqual(events, ['open', 'close']);
+  });
+
+  it('cancels pending retries when the signal is aborted', async () => {
+    sim.simulator.setFaults({ failureRate: 1 });
+    const api = sim.api();
+    const controller = new AbortController();
+    let attempts = 0;
+    const failures: unknown[] = [];
+
+    const state = await withRetry(async () => {
+      attempts++;
+      controller.abort();
+      return api.getCurrentState();
+    }, 'Get state', POLICY, silentLogger, async (_name, error) => { failures.push(error); }, controller.signal);
+    sim.simulator.setFaults({ failureRate: 0 });
+
+    assert.equal(state, null);
+    assert.equal(attempts, 1);
+    assert.equal(failures.length, 0);
+  });
+});
@@ -0,0 +1,119 @@
+import winston from 'winston';
+import { CircuitOpenError } from './circuit-breaker.js';
+import { UnsupportedStateError } from './capabilities.js';
+import { SensiboError, SensiboRateLimitError } from './sensibo-errors.js';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  retryDelay: number; // Base delay (ms) for exponential backoff
+}
+
+// Longest Retry-After worth waiting for; a longer one fails the operation right away
+const MAX_RETRY_AFTER = 60 * 1000;
+
+// Resolves after ms, or as soon as the signal is aborted
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timeout = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+    function done() {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+// First error in the cause chain that matches; SensiboAPI wraps request errors
+export function findCause<T>(error: unknown, match: (cause: unknown) => cause is T): T | null {
+  for (let current = error; current; current = (current as { cause?: unknown }).cause) {
+    if (match(current)) {
+      return current;
+    }
+  }
+  return null;
+}
+
+/**
+ * Runs an operation with exponential backoff. Returns null once every attempt
+ * has failed; onFailure is called with the operation name and last error at
+ * that point. Whether to try again follows from the error: rate limiting
+ * waits for Retry-After, network and server errors back off exponentially,
+ * and errors that would fail the same way again (auth, not found,
+ * validation, a change the unit does not support, a request refused by the
+ * circuit breaker) are not retried.
+ * Aborting the signal cancels pending retries: the call returns null without
+ * calling onFailure.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  operationName: string,
+  policy: RetryPolicy,
+  logger: winston.Logger,
+  onFailure?: (operationName: string, error: unknown) => Promise<void>,
+  signal?: AbortSignal
+): Promise<T | null> {
+  for (let attempt = 1; attempt <= policy.maxRetries; attempt++) {
+    if (signal?.aborted) {
+      logger.info(`${operationName} cancelled`);
+      return null;
+    }
+
+    try {
+      return await operation();
+    } catch (error) {
+      if (findCause(error, (cause): cause is CircuitOpenError => cause instanceof CircuitOpenError)) {
+        logger.warn(`${operationName} skipped: Sensibo API unreachable`);
+        await onFailure?.(operationName, error);
+        return null;
+      }
+
+      const unsupported = findCause(error, (cause): cause is UnsupportedStateError => cause instanceof UnsupportedStateError);
+      if (unsupported) {
+        logger.error(`${operationName} rejected: ${unsupported.message}`);
+        await onFailure?.(operationName, error);
+        return null;
+      }
+
+      logger.error(`${operationName} failed (attempt ${attempt}/${policy.maxRetries}):`, error);
+      if (signal?.aborted) {
+        logger.info(`${operationName} cancelled`);
+        return null;
+      }
+
+      const sensiboError = findCause(error, (cause): cause is SensiboError => cause instanceof SensiboError);
+      if (sensiboError && !sensiboError.retryable) {
+        logger.error(`${operationName} failed with ${sensiboError.name}, not retrying`);
+        await onFailure?.(operationName, error);
+        return null;
+      }
+
+      if (attempt === policy.maxRetries) {
+        logger.error(`${operationName} failed after ${policy.maxRetries} attempts`);
+        await onFailure?.(operationName, error);
+        return null;
+      }
+
+      // Exponential backoff with jitter (base delay * 2^(attempt-1) + random jitter)
+      let backoffDelay = Math.min(
+        policy.retryDelay * Math.pow(2, attempt - 1) + Math.random() * 1000,
+        10000 // Max 10 seconds
+      );
+
+      // Rate limited: wait at least as long as the API asks
+      const retryAfter = sensiboError instanceof SensiboRateLimitError ? sensiboError.retryAfter : null;
+      if (retryAfter !== null) {
+        if (retryAfter > MAX_RETRY_AFTER) {
+          logger.error(`${operationName} rate limited for ${Math.round(retryAfter / 1000)}s, giving up`);
+          await onFailure?.(operationName, error);
+          return null;
+        }
+        backoffDelay = Math.max(backoffDelay, retryAfter);
+      }
+
+      logger.info(`Retrying in ${Math.round(backoffDelay)}ms...`);
+      await sleep(backoffDelay, signal);
+    }
+  }
+  return null;
+}
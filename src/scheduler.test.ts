@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Messages } from './messages.js';
+import { ScheduledTimer, Scheduler } from './scheduler.js';
+import { silentLogger } from './test-support.js';
+import { ACState, ConfigurationError } from './types.js';
+
+interface Run {
+  state: Partial<ACState>;
+  device: string | undefined;
+}
+
+describe('Scheduler', () => {
+  let dir: string;
+  let file: string;
+  let runs: Run[];
+  let scheduler: Scheduler;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scheduler-test-'));
+    file = path.join(dir, 'schedule.json');
+    runs = [];
+    scheduler = create();
+  });
+  afterEach(() => {
+    scheduler.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function create(): Scheduler {
+    return new Scheduler(file, { minTemp: 16, maxTemp: 30 }, new Messages('en'), async (state, device) => {
+      runs.push({ state, device });
+    }, silentLogger);
+  }
+
+  function timerAt(minutesAgo: number, state: Partial<ACState>): ScheduledTimer {
+    return { id: `t${minutesAgo}`, kind: 'once', at: new Date(Date.now() - minutesAgo * 60000).toISOString(), deviceId: 'abc', state };
+  }
+
+  it('reports every invalid rule in the file', () => {
+    fs.writeFileSync(file, JSON.stringify({ rules: [
+      { days: 'weekdays', time: '7:30', state: { on: true } },
+      { days: ['mon', 'funday'], time: '24:00', state: { targetTemperature: 40 } },
+    ] }));
+
+    assert.throws(() => scheduler.load(), (error: unknown) => {
+      assert.ok(error instanceof ConfigurationError);
+      assert.equal(error.errors.length, 3);
+      assert.match(error.errors[0], /rules\[1\]\.days/);
+      assert.match(error.errors[1], /rules\[1\]\.time must be HH:MM/);
+      assert.match(error.errors[2], /rules\[1\]\.state/);
+      return true;
+    });
+  });
+
+  it('keeps one sleep timer per device and persists the timers', () => {
+    scheduler.setSleepTimer('abc', 30);
+    const sleep = scheduler.setSleepTimer('abc', 60);
+    scheduler.setSleepTimer('def', 30);
+
+    const reloaded = create();
+    reloaded.load();
+    assert.deepEqual(reloaded.getTimers('abc'), [sleep]);
+    assert.equal(reloaded.getTimers().length, 2);
+    assert.ok(reloaded.cancelSleepTimer('abc'));
+    assert.ok(!reloaded.cancelSleepTimer('abc'));
+  });
+
+  it('runs due timers on start and skips ones missed by more than the grace period', async () => {
+    fs.writeFileSync(file, JSON.stringify({ timers: [
+      timerAt(1, { on: false }),
+      timerAt(60, { targetTemperature: 22 }),
+      timerAt(-60, { on: true }),
+    ] }));
+    scheduler.load();
+
+    scheduler.start();
+    await new Promise(resolve => setImmediate(resolve));
+
+    assert.deepEqual(runs, [{ state: { on: false }, device: 'abc' }]);
+    // Only the future timer is left, on disk as well
+    const saved = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    assert.deepEqual(saved.timers.map((timer: ScheduledTimer) => timer.id), ['t-60']);
+  });
+});
@@ -0,0 +1,277 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import winston from 'winston';
+import { ACState, ConfigurationError } from './types.js';
+import { TemperatureLimits, validatePartialState } from './ac-state.js';
+import { Messages } from './messages.js';
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+export type ScheduleDays = 'daily' | 'weekdays' | 'weekends' | Weekday[];
+
+// Recurring rule, edited by hand in the schedule file
+export interface ScheduleRule {
+  days: ScheduleDays;
+  time: string; // HH:MM, local time
+  state: Partial<ACState>;
+  device?: string; // Device name or ID, defaults to the active device
+}
+
+// One-shot timer, created from hotkeys
+export interface ScheduledTimer {
+  id: string;
+  kind: 'sleep' | 'once';
+  at: string; // ISO timestamp
+  deviceId: string;
+  state: Partial<ACState>;
+}
+
+interface ScheduleFile {
+  rules: ScheduleRule[];
+  timers: ScheduledTimer[];
+}
+
+export type ScheduleExecutor = (state: Partial<ACState>, device: string | undefined, description: string) => Promise<void>;
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const TICK_INTERVAL = 10 * 1000;
+// Timers missed while the controller was down still run if they are at most this late
+const MISSED_TIMER_GRACE = 15 * 60 * 1000;
+
+function matchesDay(days: ScheduleDays, day: number): boolean {
+  if (days === 'daily') return true;
+  if (days === 'weekdays') return day >= 1 && day <= 5;
+  if (days === 'weekends') return day === 0 || day === 6;
+  return days.includes(WEEKDAYS[day]);
+}
+
+function formatTime(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
+
+export class Scheduler {
+  private logger: winston.Logger;
+  private rules: ScheduleRule[] = [];
+  private timers: ScheduledTimer[] = [];
+  private lastFired = new Map<number, string>(); // Rule index -> date it last ran
+  private tickInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    private filePath: string,
+    private limits: TemperatureLimits,
+    private messages: Messages,
+    private execute: ScheduleExecutor,
+    logger: winston.Logger
+  ) {
+    this.logger = logger;
+  }
+
+  load(): void {
+    const resolved = path.resolve(this.filePath);
+    if (!fs.existsSync(resolved)) {
+      return;
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(resolved, 'utf-8'));
+    } catch (error) {
+      throw new ConfigurationError([`${this.filePath}: invalid JSON (${error instanceof Error ? error.message : error})`]);
+    }
+
+    const parsed = this.validate(raw);
+    this.rules = parsed.rules;
+    this.timers = parsed.timers;
+    this.logger.info(`Loaded ${this.rules.length} schedule rule(s) and ${this.timers.length} pending timer(s)`);
+  }
+
+  start(): void {
+    this.tickInterval = setInterval(() => this.tick(), TICK_INTERVAL);
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+  }
+
+  // Replaces any pending sleep timer for the device
+  setSleepTimer(deviceId: string, minutes: number): ScheduledTimer {
+    this.timers = this.timers.filter(timer => !(timer.kind === 'sleep' && timer.deviceId === deviceId));
+    return this.addTimer('sleep', deviceId, new Date(Date.now() + minutes * 60000), { on: false });
+  }
+
+  cancelSleepTimer(deviceId: string): boolean {
+    const remaining = this.timers.filter(timer => !(timer.kind === 'sleep' && timer.deviceId === deviceId));
+    const cancelled = remaining.length !== this.timers.length;
+    if (cancelled) {
+      this.timers = remaining;
+      this.save();
+    }
+    return cancelled;
+  }
+
+  // Runs once at the next occurrence of HH:MM
+  scheduleAt(deviceId: string, hours: number, minutes: number, state: Partial<ACState>): ScheduledTimer {
+    const at = new Date();
+    at.setHours(hours, minutes, 0, 0);
+    if (at.getTime() <= Date.now()) {
+      at.setDate(at.getDate() + 1);
+    }
+    return this.addTimer('once', deviceId, at, state);
+  }
+
+  getTimers(deviceId?: string): ScheduledTimer[] {
+    return this.timers
+      .filter(timer => !deviceId || timer.deviceId === deviceId)
+      .sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+  }
+
+  // "Off in 25 minutes" style descriptions of the device's pending timers
+  describeTimers(deviceId: string): string[] {
+    return this.getTimers(deviceId).map(timer => this.messages.format('schedule.pending', {
+      state: this.messages.state(timer.state), when: this.messages.when(new Date(timer.at)),
+    }));
+  }
+
+  private addTimer(kind: ScheduledTimer['kind'], deviceId: string, at: Date, state: Partial<ACState>): ScheduledTimer {
+    const timer: ScheduledTimer = {
+      id: crypto.randomUUID(),
+      kind,
+      at: at.toISOString(),
+      deviceId,
+      state,
+    };
+    this.timers.push(timer);
+    this.save();
+    this.logger.info(`Timer scheduled for ${at.toLocaleString()}`, timer);
+    return timer;
+  }
+
+  private tick(): void {
+    const now = new Date();
+
+    const due = this.timers.filter(timer => Date.parse(timer.at) <= now.getTime());
+    if (due.length > 0) {
+      this.timers = this.timers.filter(timer => !due.includes(timer));
+      this.save();
+      due.forEach(timer => {
+        if (now.getTime() - Date.parse(timer.at) > MISSED_TIMER_GRACE) {
+          this.logger.warn(`Skipping timer missed at ${timer.at}`, timer);
+          return;
+        }
+        this.run(timer.state, timer.deviceId, this.messages.format('schedule.timer', { state: this.messages.state(timer.state) }));
+      });
+    }
+
+    const today = formatDate(now);
+    const time = formatTime(now);
+    this.rules.forEach((rule, index) => {
+      if (rule.time === time && matchesDay(rule.days, now.getDay()) && this.lastFired.get(index) !== today) {
+        this.lastFired.set(index, today);
+        this.run(rule.state, rule.device, this.messages.format('schedule.rule', { state: this.messages.state(rule.state) }));
+      }
+    });
+  }
+
+  private run(state: Partial<ACState>, device: string | undefined, description: string): void {
+    this.logger.info(`Running scheduled action: ${description}`);
+    this.execute(state, device, description).catch(error => {
+      this.logger.error(`Scheduled action failed: ${description}`, error);
+    });
+  }
+
+  // Writes the file atomically so a crash can't leave it half-written
+  private save(): void {
+    const resolved = path.resolve(this.filePath);
+    const data: ScheduleFile = { rules: this.rules, timers: this.timers };
+    const tempPath = `${resolved}.tmp`;
+    try {
+      fs.writeFileSync(tempPath, JSON.stringify(data, null, 2) + '\n');
+      fs.renameSync(tempPath, resolved);
+    } catch (error) {
+      this.logger.error(`Failed to save schedule file ${this.filePath}:`, error);
+    }
+  }
+
+  private validate(raw: unknown): ScheduleFile {
+    const source = this.filePath;
+    const errors: string[] = [];
+
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      throw new ConfigurationError([`${source}: schedule must be a JSON object`]);
+    }
+
+    const data = raw as Record<string, unknown>;
+    const rules: ScheduleRule[] = [];
+    const timers: ScheduledTimer[] = [];
+
+    if (data.rules !== undefined && !Array.isArray(data.rules)) {
+      errors.push(`${source}: rules must be an array`);
+    }
+    ((Array.isArray(data.rules) ? data.rules : []) as unknown[]).forEach((entry, index) => {
+      const label = `${source}: rules[${index}]`;
+      if (typeof entry !== 'object' || entry === null) {
+        errors.push(`${label} must be an object`);
+        return;
+      }
+      const { days, time, state, device } = entry as Record<string, unknown>;
+      const ruleErrors: string[] = [];
+
+      const validDays = days === 'daily' || days === 'weekdays' || days === 'weekends' ||
+        (Array.isArray(days) && days.length > 0 && days.every(day => WEEKDAYS.includes(day as Weekday)));
+      if (!validDays) {
+        ruleErrors.push(`${label}.days must be "daily", "weekdays", "weekends" or a list of ${WEEKDAYS.join(', ')}`);
+      }
+      const timeMatch = typeof time === 'string' ? time.match(/^(\d{1,2}):(\d{2})$/) : null;
+      if (!timeMatch || parseInt(timeMatch[1], 10) > 23 || parseInt(timeMatch[2], 10) > 59) {
+        ruleErrors.push(`${label}.time must be HH:MM`);
+      }
+      if (device !== undefined && (typeof device !== 'string' || device.trim() === '')) {
+        ruleErrors.push(`${label}.device must be a device name or ID`);
+      }
+      const validState = validatePartialState(state, `${label}.state`, this.limits, ruleErrors);
+
+      if (ruleErrors.length > 0) {
+        errors.push(...ruleErrors);
+        return;
+      }
+      rules.push({
+        days: days as ScheduleDays,
+        time: `${timeMatch![1].padStart(2, '0')}:${timeMatch![2]}`,
+        state: validState,
+        device: device as string | undefined,
+      });
+    });
+
+    // Timers are written by the controller; drop malformed ones instead of refusing to start
+    ((Array.isArray(data.timers) ? data.timers : []) as unknown[]).forEach(entry => {
+      const timer = entry as ScheduledTimer;
+      const stateErrors: string[] = [];
+      const state = validatePartialState(timer?.state, 'timer.state', this.limits, stateErrors);
+      if (typeof timer?.deviceId !== 'string' || isNaN(Date.parse(timer?.at)) || stateErrors.length > 0) {
+        this.logger.warn(`${source}: ignoring invalid timer`, { timer: entry });
+        return;
+      }
+      timers.push({
+        id: typeof timer.id === 'string' ? timer.id : crypto.randomUUID(),
+        kind: timer.kind === 'sleep' ? 'sleep' : 'once',
+        at: timer.at,
+        deviceId: timer.deviceId,
+        state,
+      });
+    });
+
+    if (errors.length > 0) {
+      throw new ConfigurationError(errors);
+    }
+
+    return { rules, timers };
+  }
+}
@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { POD_ID, startSimulator, TestSimulator } from './test-support.js';
+
+describe('SensiboAPI.setACState against the simulator', () => {
+  let sim: TestSimulator;
+  beforeEach(async () => { sim = await startSimulator(); });
+  afterEach(() => sim.stop());
+
+  // A change made meanwhile in the Sensibo app, through another client
+  async function changeElsewhere(mode: 'heat' | 'dry'): Promise<void> {
+    await sim.api().setACState({ mode });
+  }
+
+  it('sends a single property on its own, keeping a change made elsewhere', async () => {
+    const api = sim.api();
+    const cached = await api.getCurrentState();
+    await changeElsewhere('heat');
+    sim.requests.length = 0;
+
+    const changed = await api.setACState({ targetTemperature: 22 }, cached);
+
+    assert.deepEqual(changed, ['targetTemperature']);
+    assert.deepEqual(sim.requests, [`PATCH /pods/${POD_ID}/acStates/targetTemperature`]);
+    const state = await sim.podState();
+    assert.equal(state.targetTemperature, 22);
+    assert.equal(state.mode, 'heat');
+  });
+
+  it('reads the state fresh before sending several properties, ignoring a stale one', async () => {
+    const api = sim.api();
+    const stale = await api.getCurrentState();
+    await changeElsewhere('heat');
+    sim.requests.length = 0;
+
+    const changed = await api.setACState({ on: true, targetTemperature: 22 }, stale);
+
+    assert.deepEqual([...changed].sort(), ['on', 'targetTemperature']);
+    assert.deepEqual(sim.requests, [`GET /pods/${POD_ID}/acStates`, `POST /pods/${POD_ID}/acStates`]);
+    const state = await sim.podState();
+    assert.equal(state.on, true);
+    assert.equal(state.targetTemperature, 22);
+    assert.equal(state.mode, 'heat');
+  });
+
+  it('reports no changed properties when the AC already is in that state', async () => {
+    const api = sim.api();
+    await api.setACState({ targetTemperature: 22 });
+
+    assert.deepEqual(await api.setACState({ targetTemperature: 22 }), []);
+    assert.deepEqual(await api.setACState({ on: false, targetTemperature: 22 }), []);
+  });
+
+  it('refuses a change the unit does not support without sending it', async () => {
+    const api = sim.api();
+    await api.getCurrentState();
+    sim.requests.length = 0;
+
+    await assert.rejects(api.setACState({ targetTemperature: 40 }), { name: 'UnsupportedStateError' });
+    assert.deepEqual(sim.requests, []);
+  });
+});
+
+describe('SensiboAPI.setPowerWithSync against the simulator', () => {
+  let sim: TestSimulator;
+  beforeEach(async () => { sim = await startSimulator(); });
+  afterEach(() => sim.stop());
+
+  it('sends the power command when Sensibo is in sync with the unit', async () => {
+    sim.requests.length = 0;
+
+    assert.deepEqual(await sim.api().setPowerWithSync(true), ['on']);
+    assert.deepEqual(sim.requests, [`GET /pods/${POD_ID}/acStates`, `PATCH /pods/${POD_ID}/acStates/on`]);
+    const pod = await sim.pod();
+    assert.equal(pod.acState.on, true);
+    assert.equal(pod.physicallyOn, true);
+  });
+
+  it('corrects the reported state first when the unit was switched with the remote', async () => {
+    // Sensibo reports off, but the unit is running
+    sim.simulator.desync(POD_ID);
+    assert.equal((await sim.pod()).physicallyOn, true);
+    sim.requests.length = 0;
+
+    assert.deepEqual(await sim.api().setPowerWithSync(false), ['on']);
+    assert.deepEqual(sim.requests, [
+      `GET /pods/${POD_ID}/acStates`,
+      `PATCH /pods/${POD_ID}/acStates/on`, // Correction to on, not sent to the unit
+      `PATCH /pods/${POD_ID}/acStates/on`,
+    ]);
+    const pod = await sim.pod();
+    assert.equal(pod.acState.on, false);
+    assert.equal(pod.physicallyOn, false);
+  });
+
+  it('turns on a unit that was switched off with the remote', async () => {
+    await sim.api().setACState({ on: true });
+    sim.simulator.desync(POD_ID);
+
+    await sim.api().setPowerWithSync(true);
+
+    const pod = await sim.pod();
+    assert.equal(pod.acState.on, true);
+    assert.equal(pod.physicallyOn, true);
+  });
+});
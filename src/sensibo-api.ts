@@ -1,13 +1,27 @@
 import axios, { AxiosInstance } from 'axios';
-import { ACState, Measurement, SensiboConfig } from './types.js';
+import {
+  ACMode, ACState, ACTimer, Device, FanLevel, Measurement, RemoteCapabilities, SensiboConfig, SwingMode, TemperatureUnit,
+} from './types.js';
+import { limitsFor, toDeviceUnit } from './ac-state.js';
+import { UnsupportedStateError, unsupportedReason } from './capabilities.js';
+import { Message } from './messages.js';
+import { SensiboServerError, toSensiboError } from './sensibo-errors.js';
+import { diffStates, StateCache } from './state-cache.js';
+import { CircuitBreaker, CircuitOpenError } from './circuit-breaker.js';
 import winston from 'winston';
 
 export class SensiboAPI {
   private client: AxiosInstance;
   private logger: winston.Logger;
+  private deviceId: string;
+  private units = new Map<string, TemperatureUnit>(); // Last unit seen per device
+  private capabilities = new Map<string, RemoteCapabilities>();
+  readonly stateCache = new StateCache();
+  readonly circuitBreaker: CircuitBreaker;
   
   constructor(private config: SensiboConfig, logger: winston.Logger) {
     this.logger = logger;
+    this.deviceId = config.deviceId ?? config.devices[0]?.id ?? '';
     this.client = axios.create({
       baseURL: config.apiUrl,
       timeout: 5000,
@@ -18,11 +32,103 @@ export class SensiboAPI {
         apiKey: config.apiKey,
       },
     });
+
+    this.circuitBreaker = new CircuitBreaker(config.circuitBreaker, logger);
+    this.client.interceptors.request.use(request => {
+      this.circuitBreaker.beforeRequest();
+      return request;
+    });
+    this.client.interceptors.response.use(
+      response => {
+        this.circuitBreaker.recordSuccess();
+        return response;
+      },
+      error => {
+        // Only an unreachable or overloaded API counts; a 4xx means it answered
+        if (!(error instanceof CircuitOpenError)) {
+          const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+          if (status === undefined || status >= 500 || status === 429) {
+            this.circuitBreaker.recordFailure();
+          } else {
+            this.circuitBreaker.recordSuccess();
+          }
+        }
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  // Device targeted by calls that don't pass an explicit deviceId
+  setDeviceId(deviceId: string): void {
+    this.deviceId = deviceId;
+  }
+
+  async listDevices(): Promise<Device[]> {
+    try {
+      const response = await this.client.get('/users/me/pods', {
+        params: {
+          fields: 'id,room',
+        },
+      });
+
+      const pods: Array<{ id: string; room?: { name?: string } }> = response.data.result;
+      return pods.map(pod => ({ id: pod.id, name: pod.room?.name || pod.id }));
+    } catch (error) {
+      this.logger.error('Failed to list devices:', error);
+      throw toSensiboError(error, 'Failed to list devices');
+    }
   }
 
-  async getCurrentState(): Promise<ACState> {
+  // Reads and caches what the unit supports per mode; until then changes are checked against the configured range
+  async loadCapabilities(deviceId: string = this.deviceId): Promise<RemoteCapabilities> {
     try {
-      const response = await this.client.get(`/pods/${this.config.deviceId}/acStates`, {
+      const response = await this.client.get(`/pods/${deviceId}`, {
+        params: {
+          fields: 'remoteCapabilities',
+        },
+      });
+
+      const capabilities: RemoteCapabilities | null = response.data.result.remoteCapabilities;
+      if (!capabilities?.modes) {
+        throw new Error('No remote capabilities reported');
+      }
+      this.capabilities.set(deviceId, capabilities);
+      this.logger.info(`Capabilities of ${deviceId}: modes ${Object.keys(capabilities.modes).join(', ')}`);
+      return capabilities;
+    } catch (error) {
+      this.logger.error('Failed to get capabilities:', error);
+      throw toSensiboError(error, 'Failed to get capabilities');
+    }
+  }
+
+  getCapabilities(deviceId: string = this.deviceId): RemoteCapabilities | null {
+    return this.capabilities.get(deviceId) ?? null;
+  }
+
+  /**
+   * Why the device cannot apply a change to the given state, or null if it
+   * can or that depends on a state that is not known. The target is in the
+   * device's unit. Without capabilities only the target is checked, against
+   * the configured range.
+   */
+  unsupportedReason(change: Partial<ACState>, baseState: ACState | null, deviceId: string = this.deviceId): Message | null {
+    const capabilities = this.capabilities.get(deviceId);
+    if (capabilities) {
+      return baseState && unsupportedReason(capabilities, change, change.mode ?? baseState.mode, baseState.temperatureUnit);
+    }
+
+    const limits = limitsFor(this.config, baseState?.temperatureUnit ?? this.getTemperatureUnit(deviceId));
+    const target = change.targetTemperature;
+    if (target !== undefined && (target < limits.minTemp || target > limits.maxTemp)) {
+      return { key: 'temperature.range', params: { min: limits.minTemp, max: limits.maxTemp } };
+    }
+    return null;
+  }
+
+  async getCurrentState(deviceId: string = this.deviceId): Promise<ACState> {
+    const requestedAt = Date.now();
+    try {
+      const response = await this.client.get(`/pods/${deviceId}/acStates`, {
         params: {
           limit: 1,
           apiKey: this.config.apiKey,
@@ -31,21 +137,50 @@ export class SensiboAPI {
       
       const currentState = response.data.result[0];
       this.logger.debug('Current AC state retrieved', currentState);
+      this.units.set(deviceId, currentState.acState.temperatureUnit);
+      this.stateCache.update(deviceId, currentState.acState, 'external', requestedAt);
       return currentState.acState;
     } catch (error) {
       this.logger.error('Failed to get current state:', error);
-      throw new Error(`Failed to get AC state: ${error}`);
+      throw toSensiboError(error, 'Failed to get AC state');
     }
   }
 
-  async setACState(state: Partial<ACState>, currentState?: ACState): Promise<void> {
+  /**
+   * Applies a partial state and returns the properties Sensibo reports as
+   * changed, empty if the AC already was in that state. A single property is
+   * sent on its own, so a change made meanwhile elsewhere (e.g. a mode set in
+   * the Sensibo app) is kept, and currentState (if given) is only used for
+   * its unit and mode. Several properties need the whole state to be sent,
+   * so it is always read fresh and currentState is ignored.
+   */
+  async setACState(
+    state: Partial<ACState>,
+    currentState?: ACState,
+    deviceId: string = this.deviceId
+  ): Promise<Array<keyof ACState>> {
+    const properties = (Object.keys(state) as Array<keyof ACState>).filter(key => key !== 'temperatureUnit');
+    if (properties.length === 0) {
+      return [];
+    }
+
     try {
-      // Use provided current state to avoid redundant API call
-      const baseState = currentState || await this.getCurrentState();
-      const newState = { ...baseState, ...state };
-      
+      // A single property only needs the unit and mode, which a recently cached state has
+      const baseState = properties.length === 1
+        ? currentState ?? await this.getBaseState(deviceId)
+        : await this.getCurrentState(deviceId);
+      const change = toDeviceUnit(state, baseState.temperatureUnit);
+      const reason = this.unsupportedReason(change, baseState, deviceId);
+      if (reason) {
+        throw new UnsupportedStateError(reason);
+      }
+      if (properties.length === 1) {
+        return await this.patchProperty(deviceId, properties[0], change[properties[0]], baseState);
+      }
+      const newState = { ...baseState, ...change };
+
       const response = await this.client.post(
-        `/pods/${this.config.deviceId}/acStates`,
+        `/pods/${deviceId}/acStates`,
         {
           acState: newState,
         }
@@ -53,32 +188,143 @@ export class SensiboAPI {
       
       if (response.data.status === 'success') {
         this.logger.info('AC state updated successfully', newState);
+        return this.applyResult(deviceId, response.data.result, baseState, change);
       } else {
-        throw new Error(`API returned status: ${response.data.status}`);
+        throw new SensiboServerError(`API returned status: ${response.data.status}`, {
+          status: response.status,
+          body: response.data,
+        });
       }
     } catch (error) {
       this.logger.error('Failed to set AC state:', error);
-      throw new Error(`Failed to set AC state: ${error}`);
+      throw toSensiboError(error, 'Failed to set AC state');
     }
   }
 
-  async setTemperature(temperature: number): Promise<void> {
-    if (temperature < this.config.minTemp || temperature > this.config.maxTemp) {
-      throw new Error(`Temperature must be between ${this.config.minTemp} and ${this.config.maxTemp}`);
+  // PATCH /acStates/{property}: changes one property and leaves the rest of the state as it is
+  private async patchProperty(
+    deviceId: string,
+    property: keyof ACState,
+    value: unknown,
+    baseState: ACState | null,
+    reason?: string
+  ): Promise<Array<keyof ACState>> {
+    const response = await this.client.patch(
+      `/pods/${deviceId}/acStates/${property}`,
+      {
+        newValue: value,
+        ...(reason && { reason }),
+      }
+    );
+
+    if (response.data.status !== 'success') {
+      throw new SensiboServerError(`API returned status: ${response.data.status}`, {
+        status: response.status,
+        body: response.data,
+      });
+    }
+    this.logger.info(`AC ${property} updated successfully: ${value}`);
+    return this.applyResult(deviceId, response.data.result, baseState, { [property]: value });
+  }
+
+  /**
+   * Caches the state Sensibo reports after a write, or the expected one if it
+   * reports none. Properties that changed elsewhere since the base state was
+   * read are cached as an external change first, so only the written ones
+   * count as the controller's.
+   */
+  private applyResult(
+    deviceId: string,
+    result: { acState?: ACState; changedProperties?: Array<keyof ACState> } | undefined,
+    baseState: ACState | null,
+    change: Partial<ACState>
+  ): Array<keyof ACState> {
+    const newState = result?.acState ?? (baseState && { ...baseState, ...change });
+    if (result?.acState && baseState) {
+      const before = Object.fromEntries(Object.keys(change).map(key => [key, baseState[key as keyof ACState]]));
+      this.stateCache.update(deviceId, { ...result.acState, ...before }, 'external');
     }
-    
+    if (newState) {
+      this.stateCache.update(deviceId, newState, 'controller');
+    }
+    if (result?.changedProperties) {
+      return result.changedProperties;
+    }
+    return baseState && newState ? Object.keys(diffStates(baseState, newState)) as Array<keyof ACState> : [];
+  }
+
+  // Temperature is in the device's unit; the range is checked in that unit, for the current mode
+  async setTemperature(
+    temperature: number,
+    currentState?: ACState,
+    deviceId: string = this.deviceId
+  ): Promise<Array<keyof ACState>> {
     try {
-      await this.setACState({ targetTemperature: temperature });
-      this.logger.info(`Temperature set to: ${temperature}°C`);
+      const changed = await this.setACState({ targetTemperature: temperature }, currentState, deviceId);
+      this.logger.info(`Temperature set to: ${temperature}°${this.getTemperatureUnit(deviceId)}`);
+      return changed;
     } catch (error) {
       this.logger.error('Failed to set temperature:', error);
-      throw new Error(`Failed to set temperature: ${error}`);
+      throw toSensiboError(error, 'Failed to set temperature');
     }
   }
 
-  async getRoomTemperature(): Promise<number> {
+  // Recently cached state, or a fresh read
+  private async getBaseState(deviceId: string): Promise<ACState> {
+    const cached = this.stateCache.get(deviceId, this.config.stateCacheTtl * 1000);
+    if (cached) {
+      this.logger.debug('Using cached AC state');
+      return cached;
+    }
+    return this.getCurrentState(deviceId);
+  }
+
+  // Unit of the device's last known state; Celsius until the state has been read
+  getTemperatureUnit(deviceId: string = this.deviceId): TemperatureUnit {
+    return this.units.get(deviceId) ?? 'C';
+  }
+
+  async setMode(mode: ACMode, currentState?: ACState, deviceId: string = this.deviceId): Promise<Array<keyof ACState>> {
+    try {
+      const changed = await this.setACState({ mode }, currentState, deviceId);
+      this.logger.info(`Mode set to: ${mode}`);
+      return changed;
+    } catch (error) {
+      this.logger.error('Failed to set mode:', error);
+      throw toSensiboError(error, 'Failed to set mode');
+    }
+  }
+
+  async setFanLevel(
+    fanLevel: FanLevel,
+    currentState?: ACState,
+    deviceId: string = this.deviceId
+  ): Promise<Array<keyof ACState>> {
+    try {
+      const changed = await this.setACState({ fanLevel }, currentState, deviceId);
+      this.logger.info(`Fan level set to: ${fanLevel}`);
+      return changed;
+    } catch (error) {
+      this.logger.error('Failed to set fan level:', error);
+      throw toSensiboError(error, 'Failed to set fan level');
+    }
+  }
+
+  async setSwing(swing: SwingMode, currentState?: ACState, deviceId: string = this.deviceId): Promise<Array<keyof ACState>> {
     try {
-      const response = await this.client.get(`/pods/${this.config.deviceId}/measurements`, {
+      const changed = await this.setACState({ swing }, currentState, deviceId);
+      this.logger.info(`Swing set to: ${swing}`);
+      return changed;
+    } catch (error) {
+      this.logger.error('Failed to set swing:', error);
+      throw toSensiboError(error, 'Failed to set swing');
+    }
+  }
+
+  // Latest room reading (temperature always in Celsius)
+  async getMeasurement(deviceId: string = this.deviceId): Promise<Measurement> {
+    try {
+      const response = await this.client.get(`/pods/${deviceId}/measurements`, {
         params: {
           apiKey: this.config.apiKey,
           fields: '*',
@@ -87,41 +333,109 @@ export class SensiboAPI {
 
       const measurements: Measurement[] = response.data.result;
       if (measurements.length > 0) {
-        const currentTemp = measurements[0].temperature;
-        this.logger.info(`Current room temperature: ${currentTemp}°C`);
-        return currentTemp;
+        const measurement = measurements[0];
+        this.logger.info(`Current room temperature: ${measurement.temperature}°C, humidity ${measurement.humidity}%`);
+        return measurement;
       }
 
       throw new Error('No temperature measurements available');
     } catch (error) {
-      this.logger.error('Failed to get room temperature:', error);
-      throw new Error(`Failed to get room temperature: ${error}`);
+      this.logger.error('Failed to get room measurements:', error);
+      throw toSensiboError(error, 'Failed to get room measurements');
     }
   }
 
-  async syncPowerState(actualState: boolean): Promise<void> {
+  async getRoomTemperature(deviceId: string = this.deviceId): Promise<number> {
+    const measurement = await this.getMeasurement(deviceId);
+    return measurement.temperature;
+  }
+
+  // The pod's timer, whether set by the controller or with the Sensibo app; null if none
+  async getTimer(deviceId: string = this.deviceId): Promise<ACTimer | null> {
     try {
-      const response = await this.client.patch(
-        `/pods/${this.config.deviceId}/acStates/on`,
-        {
-          newValue: actualState,
-          reason: 'StateCorrectionByUser',
-        },
-        {
-          params: {
-            apiKey: this.config.apiKey,
-          },
-        }
-      );
+      const response = await this.client.get(`/pods/${deviceId}/timer`);
+      const timer = response.data.result;
+      if (!timer || !timer.targetTime) {
+        return null;
+      }
+      return { id: timer.id, isEnabled: timer.isEnabled, acState: timer.acState, targetTime: timer.targetTime };
+    } catch (error) {
+      this.logger.error('Failed to get timer:', error);
+      throw toSensiboError(error, 'Failed to get timer');
+    }
+  }
+
+  // Replaces the pod's timer; Sensibo applies the state after the given minutes even if the controller stops
+  async setTimer(minutes: number, state: Partial<ACState>, deviceId: string = this.deviceId): Promise<void> {
+    try {
+      const baseState = await this.getBaseState(deviceId);
+      const acState = { ...baseState, ...toDeviceUnit(state, baseState.temperatureUnit) };
+      const response = await this.client.put(`/pods/${deviceId}/timer`, { minutesFromNow: minutes, acState });
 
       if (response.data.status === 'success') {
-        this.logger.info(`AC state synchronized to: ${actualState ? 'ON' : 'OFF'}`);
+        this.logger.info(`Timer set for ${minutes} minutes from now`, acState);
       } else {
-        throw new Error(`API returned status: ${response.data.status}`);
+        throw new SensiboServerError(`API returned status: ${response.data.status}`, {
+          status: response.status,
+          body: response.data,
+        });
       }
+    } catch (error) {
+      this.logger.error('Failed to set timer:', error);
+      throw toSensiboError(error, 'Failed to set timer');
+    }
+  }
+
+  async deleteTimer(deviceId: string = this.deviceId): Promise<void> {
+    try {
+      const response = await this.client.delete(`/pods/${deviceId}/timer`);
+      if (response.data.status === 'success') {
+        this.logger.info('Timer deleted');
+      } else {
+        throw new SensiboServerError(`API returned status: ${response.data.status}`, {
+          status: response.status,
+          body: response.data,
+        });
+      }
+    } catch (error) {
+      this.logger.error('Failed to delete timer:', error);
+      throw toSensiboError(error, 'Failed to delete timer');
+    }
+  }
+
+
+  async syncPowerState(actualState: boolean, deviceId: string = this.deviceId): Promise<void> {
+    try {
+      // Only corrects the state Sensibo reports; nothing is sent to the AC
+      await this.patchProperty(deviceId, 'on', actualState, this.stateCache.get(deviceId, Infinity), 'StateCorrectionByUser');
+      this.logger.info(`AC state synchronized to: ${actualState ? 'ON' : 'OFF'}`);
     } catch (error) {
       this.logger.error('Failed to sync power state:', error);
-      throw new Error(`Failed to sync power state: ${error}`);
+      throw toSensiboError(error, 'Failed to sync power state');
+    }
+  }
+
+  /**
+   * Turns the AC on or off. A power request that matches the state Sensibo
+   * already reports means the AC is out of sync (e.g. changed with the IR
+   * remote), so the reported state is corrected first and the command is
+   * then sent for real. The command is always sent, so the result always
+   * lists 'on'.
+   */
+  async setPowerWithSync(on: boolean, deviceId: string = this.deviceId): Promise<Array<keyof ACState>> {
+    // Get current Sensibo state
+    const currentState = await this.getCurrentState(deviceId);
+
+    if (currentState.on === on) {
+      const reported = on ? 'ON' : 'OFF';
+      const actual = on ? 'OFF' : 'ON';
+      this.logger.info(`Sensibo state shows ${reported} but AC is actually ${actual}. Syncing state...`);
+      await this.syncPowerState(!on, deviceId);
+      // Small delay to ensure sync completes
+      await new Promise(resolve => setTimeout(resolve, 500));
     }
+
+    // Now send the actual power command
+    return this.setACState({ on }, undefined, deviceId);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,113 @@
+import axios, { AxiosError } from 'axios';
+import { CircuitOpenError } from './circuit-breaker.js';
+import { UnsupportedStateError } from './capabilities.js';
+
+interface SensiboErrorOptions {
+  status?: number; // HTTP status, when Sensibo answered
+  body?: unknown; // Response body, when Sensibo answered
+  cause?: unknown;
+}
+
+/**
+ * A failed Sensibo API call. Subclasses tell apart what went wrong, and
+ * whether trying again can help; withRetry decides on that alone.
+ */
+export abstract class SensiboError extends Error {
+  abstract readonly retryable: boolean;
+  readonly status?: number;
+  readonly body?: unknown;
+
+  constructor(message: string, options: SensiboErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.status = options.status;
+    this.body = options.body;
+  }
+}
+
+// 401 or 403: the API key is wrong or has been revoked
+export class SensiboAuthError extends SensiboError {
+  readonly retryable = false;
+}
+
+// 404: the device ID doesn't exist on the account
+export class SensiboNotFoundError extends SensiboError {
+  readonly retryable = false;
+}
+
+// Other 4xx: Sensibo refused the request itself
+export class SensiboValidationError extends SensiboError {
+  readonly retryable = false;
+}
+
+// 429: retried once Retry-After has passed
+export class SensiboRateLimitError extends SensiboError {
+  readonly retryable = true;
+
+  constructor(message: string, readonly retryAfter: number | null, options: SensiboErrorOptions = {}) {
+    super(message, options);
+  }
+}
+
+// No response: offline, DNS failure, connection refused or timed out
+export class SensiboNetworkError extends SensiboError {
+  readonly retryable = true;
+}
+
+// 5xx, or a response that reports a failure
+export class SensiboServerError extends SensiboError {
+  readonly retryable = true;
+}
+
+// Retry-After in ms (seconds or an HTTP date), null if missing or unparsable
+function parseRetryAfter(error: AxiosError): number | null {
+  const header = error.response?.headers?.['retry-after'];
+  if (header === undefined || header === null) {
+    return null;
+  }
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(header));
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Sensibo explains failures in "reason" or "message"
+function responseReason(body: unknown): string {
+  if (typeof body !== 'object' || body === null) {
+    return '';
+  }
+  const { reason, message } = body as { reason?: unknown; message?: unknown };
+  const text = reason ?? message;
+  return typeof text === 'string' ? ` ${text}` : '';
+}
+
+/**
+ * The error a failed call should be rethrown as, with operation (e.g.
+ * "Failed to get AC state") leading the message. Request errors become the
+ * matching SensiboError; errors that are already typed pass through as they
+ * are, and anything else is wrapped in a plain Error.
+ */
+export function toSensiboError(error: unknown, operation: string): Error {
+  if (error instanceof SensiboError || error instanceof CircuitOpenError || error instanceof UnsupportedStateError) {
+    return error;
+  }
+  if (!axios.isAxiosError(error)) {
+    return new Error(`${operation}: ${error}`, { cause: error });
+  }
+
+  const { response } = error;
+  if (!response) {
+    return new SensiboNetworkError(`${operation}: ${error.code ?? error.message}`, { cause: error });
+  }
+
+  const { status, data: body } = response;
+  const message = `${operation}: HTTP ${status}${responseReason(body)}`;
+  const options = { status, body, cause: error };
+  if (status === 401 || status === 403) return new SensiboAuthError(message, options);
+  if (status === 404) return new SensiboNotFoundError(message, options);
+  if (status === 429) return new SensiboRateLimitError(message, parseRetryAfter(error), options);
+  if (status >= 500) return new SensiboServerError(message, options);
+  return new SensiboValidationError(message, options);
+}
@@ -0,0 +1,105 @@
+import { parseArgs } from 'util';
+import { createCliLogger } from '../logger.js';
+import { SensiboSimulator } from './server.js';
+
+const USAGE = `Usage: npm run simulator -- [options]
+
+Options:
+  --port <n>             Port to listen on (default: 8990)
+  --api-key <key>        Reject requests with another apiKey (default: accept any)
+  --pods <list>          Comma-separated "name=id" pods (default: Living Room=sim-living,Bedroom=sim-bedroom)
+  --unit <C|F>           Temperature unit the pods report in (default: C)
+  --room-temp <c>        Initial room temperature in Celsius (default: 28)
+  --outdoor-temp <c>     Outdoor temperature in Celsius (default: 32)
+  --time-scale <n>       Simulated seconds per real second (default: 60)
+  --failure-rate <0-1>   Fraction of requests answered with 500 (default: 0)
+  --rate-limit-rate <0-1> Fraction of requests answered with 429 (default: 0)
+  --retry-after <s>      Retry-After seconds sent with 429s (default: 5)
+  --latency <ms>         Delay added to every request (default: 0)
+  --verbose              Log every request`;
+
+function parseNumber(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (isNaN(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be a non-negative number`);
+  }
+  return parsed;
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      'port': { type: 'string' },
+      'api-key': { type: 'string' },
+      'pods': { type: 'string' },
+      'unit': { type: 'string' },
+      'room-temp': { type: 'string' },
+      'outdoor-temp': { type: 'string' },
+      'time-scale': { type: 'string' },
+      'failure-rate': { type: 'string' },
+      'rate-limit-rate': { type: 'string' },
+      'retry-after': { type: 'string' },
+      'latency': { type: 'string' },
+      'verbose': { type: 'boolean', default: false },
+      'help': { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const pods = (values.pods || 'Living Room=sim-living,Bedroom=sim-bedroom')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.lastIndexOf('=');
+      return separator >= 0
+        ? { name: entry.slice(0, separator).trim(), id: entry.slice(separator + 1).trim() }
+        : { name: entry, id: entry };
+    });
+
+  const unit = (values.unit || 'C').toUpperCase();
+  if (unit !== 'C' && unit !== 'F') {
+    throw new Error('--unit must be C or F');
+  }
+
+  const logger = createCliLogger(values.verbose ? 'debug' : 'info');
+  const simulator = new SensiboSimulator({
+    port: parseNumber(values.port, 8990, 'port'),
+    apiKey: values['api-key'],
+    pods,
+    unit,
+    room: {
+      initialTemperature: parseNumber(values['room-temp'], 28, 'room-temp'),
+      outdoorTemperature: parseNumber(values['outdoor-temp'], 32, 'outdoor-temp'),
+      humidity: 60,
+      timeScale: parseNumber(values['time-scale'], 60, 'time-scale'),
+    },
+    faults: {
+      failureRate: parseNumber(values['failure-rate'], 0, 'failure-rate'),
+      rateLimitRate: parseNumber(values['rate-limit-rate'], 0, 'rate-limit-rate'),
+      retryAfter: parseNumber(values['retry-after'], 5, 'retry-after'),
+      latency: parseNumber(values['latency'], 0, 'latency'),
+    },
+  }, logger);
+
+  await simulator.start();
+  pods.forEach(pod => logger.info(`  ${pod.name} (${pod.id})`));
+
+  const shutdown = async () => {
+    await simulator.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  console.error(USAGE);
+  process.exit(2);
+});
@@ -0,0 +1,85 @@
+import { ACState } from '../types.js';
+
+export interface RoomModelOptions {
+  initialTemperature: number;
+  outdoorTemperature: number; // The room drifts toward this while the AC is off
+  humidity: number;
+  timeScale: number; // Simulated seconds per real second
+}
+
+// Time constants (simulated seconds) for the exponential approach to a target
+const AC_TIME_CONSTANT = 15 * 60;
+const LEAK_TIME_CONSTANT = 3 * 60 * 60;
+const HUMIDITY_TIME_CONSTANT = 30 * 60;
+
+/**
+ * A single room with one AC unit. Temperatures follow Newton's law of
+ * cooling: toward the target while the unit runs, toward the outdoor
+ * temperature otherwise. State is advanced lazily from wall-clock time.
+ */
+export class RoomModel {
+  private temperature: number;
+  private humidity: number;
+  private lastUpdate = Date.now();
+
+  constructor(private options: RoomModelOptions) {
+    this.temperature = options.initialTemperature;
+    this.humidity = options.humidity;
+  }
+
+  // Advances the model to now given what the unit is physically doing
+  update(state: ACState, physicallyOn: boolean): void {
+    const now = Date.now();
+    const elapsed = ((now - this.lastUpdate) / 1000) * this.options.timeScale;
+    this.lastUpdate = now;
+    if (elapsed <= 0) return;
+
+    // Heat leaks in from outside regardless of the AC
+    this.temperature = approach(this.temperature, this.options.outdoorTemperature, elapsed, LEAK_TIME_CONSTANT);
+
+    if (physicallyOn) {
+      const target = this.effectiveTarget(state);
+      if (target !== null) {
+        this.temperature = approach(this.temperature, target, elapsed, AC_TIME_CONSTANT);
+      }
+      // Cooling and drying remove moisture
+      if (state.mode === 'cool' || state.mode === 'dry') {
+        const humidityTarget = state.mode === 'dry' ? 35 : 45;
+        this.humidity = approach(this.humidity, humidityTarget, elapsed, HUMIDITY_TIME_CONSTANT);
+      }
+    } else {
+      this.humidity = approach(this.humidity, this.options.humidity, elapsed, HUMIDITY_TIME_CONSTANT);
+    }
+  }
+
+  getTemperature(): number {
+    return Math.round(this.temperature * 10) / 10;
+  }
+
+  getHumidity(): number {
+    return Math.round(this.humidity * 10) / 10;
+  }
+
+  // Temperature the unit pushes the room toward, or null if it doesn't in this mode
+  private effectiveTarget(state: ACState): number | null {
+    const target = state.temperatureUnit === 'F'
+      ? (state.targetTemperature - 32) * 5 / 9
+      : state.targetTemperature;
+
+    switch (state.mode) {
+      case 'cool':
+      case 'dry':
+        return Math.min(target, this.temperature);
+      case 'heat':
+        return Math.max(target, this.temperature);
+      case 'auto':
+        return target;
+      default:
+        return null;
+    }
+  }
+}
+
+function approach(current: number, target: number, elapsed: number, timeConstant: number): number {
+  return target + (current - target) * Math.exp(-elapsed / timeConstant);
+}
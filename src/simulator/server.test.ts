@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { POD_ID, startSimulator, TestSimulator } from '../test-support.js';
+
+// One simulated hour per real second; the room starts at 28°C with 32°C outside
+const TIME_SCALE = 3600;
+
+describe('Simulated room', () => {
+  let sim: TestSimulator;
+  beforeEach(async () => { sim = await startSimulator({ timeScale: TIME_SCALE }); });
+  afterEach(() => sim.stop());
+
+  const pause = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  it('cools toward the target while the unit is on', async () => {
+    const api = sim.api();
+    await api.setACState({ on: true, mode: 'cool', targetTemperature: 20 });
+    await pause(300);
+    const early = await api.getRoomTemperature();
+    await pause(300);
+    const later = await api.getRoomTemperature();
+
+    assert.ok(early < 28, `${early} should be below 28`);
+    assert.ok(later < early, `${later} should be below ${early}`);
+    assert.ok(later >= 20, `${later} should not pass the target`);
+  });
+
+  it('warms toward the outdoor temperature while the unit is off', async () => {
+    await pause(300);
+    const temperature = await sim.api().getRoomTemperature();
+
+    assert.ok(temperature > 28 && temperature < 32, `${temperature} should be between 28 and 32`);
+  });
+
+  it('follows what the unit does, not what Sensibo reports', async () => {
+    // Reported off, but running: the room cools anyway
+    await sim.api().setACState({ targetTemperature: 20 });
+    sim.simulator.desync(POD_ID);
+    await pause(300);
+
+    assert.ok((await sim.pod()).roomTemperature < 28);
+  });
+});
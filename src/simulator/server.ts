@@ -0,0 +1,398 @@
+import http from 'http';
+import winston from 'winston';
+import { ACState, ACTimer, FanLevel, RemoteCapabilities, SWING_MODES, TemperatureUnit } from '../types.js';
+import { RoomModel, RoomModelOptions } from './room-model.js';
+
+export interface FaultOptions {
+  failureRate: number; // Fraction of API requests answered with 500
+  rateLimitRate: number; // Fraction of API requests answered with 429
+  retryAfter: number; // Retry-After header (seconds) sent with 429s
+  latency: number; // Added delay per request (ms)
+}
+
+export interface SimulatorOptions {
+  port: number;
+  apiKey?: string; // When set, requests with another apiKey get 401
+  pods: Array<{ id: string; name: string }>;
+  unit?: TemperatureUnit; // Temperature unit the pods report in (default Celsius)
+  room: RoomModelOptions;
+  faults: FaultOptions;
+}
+
+interface SimulatedPod {
+  id: string;
+  name: string;
+  acState: ACState; // What Sensibo reports
+  physicallyOn: boolean; // What the unit is actually doing
+  room: RoomModel;
+  timer: (ACTimer & { createTime: string }) | null;
+}
+
+const DEFAULT_AC_STATE: ACState = {
+  on: false,
+  mode: 'cool',
+  fanLevel: 'auto',
+  targetTemperature: 24,
+  temperatureUnit: 'C',
+  swing: 'stopped',
+};
+
+// Properties PATCH /acStates/{property} accepts, with the type of their value
+const PROPERTY_TYPES: Partial<Record<keyof ACState, string>> = {
+  on: 'boolean', mode: 'string', fanLevel: 'string', targetTemperature: 'number', swing: 'string',
+};
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+}
+
+// A typical split unit: no target in fan mode, a narrower range in dry mode, and no quiet fan in heat mode
+const TEMPERATURES = { C: { isNative: true, values: range(16, 30) }, F: { isNative: false, values: range(61, 86) } };
+const FAN_LEVELS: FanLevel[] = ['quiet', 'low', 'medium', 'high', 'auto'];
+const CAPABILITIES: RemoteCapabilities = {
+  modes: {
+    cool: { temperatures: TEMPERATURES, fanLevels: FAN_LEVELS, swing: SWING_MODES },
+    heat: { temperatures: TEMPERATURES, fanLevels: ['low', 'medium', 'high', 'auto'], swing: SWING_MODES },
+    fan: { fanLevels: ['low', 'medium', 'high', 'auto'], swing: ['stopped', 'rangeFull'] },
+    dry: {
+      temperatures: { C: { isNative: true, values: range(18, 30) }, F: { isNative: false, values: range(64, 86) } },
+      fanLevels: ['low'],
+      swing: ['stopped', 'rangeFull'],
+    },
+    auto: { temperatures: TEMPERATURES, fanLevels: ['auto'], swing: SWING_MODES },
+  },
+};
+
+class SimulatorError extends Error {
+  constructor(public readonly statusCode: number, message: string) {
+    super(message);
+    this.name = 'SimulatorError';
+  }
+}
+
+/**
+ * Local stand-in for the Sensibo cloud API. Serves the endpoints used by
+ * SensiboAPI (with or without the /api/v2 prefix) plus a /__sim control API
+ * for inspecting pods and changing fault injection at runtime.
+ */
+export class SensiboSimulator {
+  private logger: winston.Logger;
+  private server: http.Server | null = null;
+  private pods = new Map<string, SimulatedPod>();
+  private faults: FaultOptions;
+
+  constructor(private options: SimulatorOptions, logger: winston.Logger) {
+    this.logger = logger;
+    this.faults = { ...options.faults };
+    options.pods.forEach(pod => {
+      this.pods.set(pod.id, {
+        ...pod,
+        acState: options.unit === 'F'
+          ? { ...DEFAULT_AC_STATE, targetTemperature: 75, temperatureUnit: 'F' }
+          : { ...DEFAULT_AC_STATE },
+        physicallyOn: false,
+        room: new RoomModel(options.room),
+        timer: null,
+      });
+    });
+  }
+
+  start(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const server = http.createServer((req, res) => {
+        this.handleRequest(req, res).catch(error => {
+          const statusCode = error instanceof SimulatorError ? error.statusCode : 500;
+          this.sendJson(res, statusCode, { status: 'failure', reason: error.message });
+        });
+      });
+
+      server.once('error', reject);
+      server.listen(this.options.port, '127.0.0.1', () => {
+        server.off('error', reject);
+        this.server = server;
+        const address = server.address();
+        const port = typeof address === 'object' && address ? address.port : this.options.port;
+        this.logger.info(`Sensibo simulator listening on http://127.0.0.1:${port}/api/v2`);
+        resolve(port);
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+      this.server.close(() => resolve());
+      this.server = null;
+    });
+  }
+
+  setFaults(faults: Partial<FaultOptions>): void {
+    this.faults = { ...this.faults, ...faults };
+    this.logger.info('Fault injection updated', this.faults);
+  }
+
+  // Flips the physical power so Sensibo's reported state no longer matches the unit
+  desync(podId: string): void {
+    const pod = this.getPod(podId);
+    pod.room.update(pod.acState, pod.physicallyOn);
+    pod.physicallyOn = !pod.physicallyOn;
+    this.logger.info(`Pod ${podId} desynced: reported ${pod.acState.on ? 'ON' : 'OFF'}, actual ${pod.physicallyOn ? 'ON' : 'OFF'}`);
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const method = req.method || 'GET';
+    const url = new URL(req.url || '/', 'http://localhost');
+    const pathname = url.pathname.replace(/^\/api\/v2/, '');
+    this.logger.debug(`${method} ${pathname}`);
+
+    if (pathname.startsWith('/__sim')) {
+      await this.handleControlRequest(method, pathname, req, res);
+      return;
+    }
+
+    await this.injectFaults(res);
+    if (res.headersSent) return;
+
+    if (this.options.apiKey && url.searchParams.get('apiKey') !== this.options.apiKey) {
+      throw new SimulatorError(401, 'Invalid apiKey');
+    }
+
+    if (method === 'GET' && pathname === '/users/me/pods') {
+      const result = [...this.pods.values()].map(pod => ({ id: pod.id, room: { name: pod.name } }));
+      this.sendJson(res, 200, { status: 'success', result });
+      return;
+    }
+
+    const match = pathname.match(/^\/pods\/([^/]+)(?:\/(acStates(?:\/(\w+))?|measurements|timer))?\/?$/);
+    if (!match) {
+      throw new SimulatorError(404, 'Not found');
+    }
+
+    const pod = this.getPod(match[1]);
+    this.updatePod(pod);
+    const property = match[3] as keyof ACState | undefined;
+    const endpoint = `${method} ${property ? 'acStates/:property' : match[2] ?? 'pod'}`;
+
+    switch (endpoint) {
+      case 'GET pod':
+        this.sendJson(res, 200, {
+          status: 'success',
+          result: { id: pod.id, room: { name: pod.name }, remoteCapabilities: CAPABILITIES },
+        });
+        return;
+      case 'GET acStates':
+        this.sendJson(res, 200, {
+          status: 'success',
+          result: [{ id: `${Date.now()}`, status: 'Success', acState: pod.acState }],
+        });
+        return;
+      case 'POST acStates': {
+        const body = await this.readBody(req);
+        const acState = body.acState as ACState | undefined;
+        if (!acState || typeof acState !== 'object') {
+          throw new SimulatorError(400, 'acState is required');
+        }
+        const changedProperties = (Object.keys(acState) as Array<keyof ACState>)
+          .filter(key => pod.acState[key] !== acState[key]);
+        pod.acState = { ...pod.acState, ...acState };
+        // A full state POST is sent to the unit over IR
+        pod.physicallyOn = pod.acState.on;
+        this.logger.info(`Pod ${pod.id} state set`, pod.acState);
+        this.sendJson(res, 200, {
+          status: 'success',
+          result: { id: `${Date.now()}`, status: 'Success', acState: pod.acState, changedProperties },
+        });
+        return;
+      }
+      case 'PATCH acStates/:property': {
+        const body = await this.readBody(req);
+        const type = property && PROPERTY_TYPES[property];
+        if (!type) {
+          throw new SimulatorError(400, `${property} cannot be changed`);
+        }
+        if (typeof body.newValue !== type) {
+          throw new SimulatorError(400, `newValue must be a ${type}`);
+        }
+        const changedProperties = pod.acState[property] === body.newValue ? [] : [property];
+        pod.acState = { ...pod.acState, [property]: body.newValue };
+        // State corrections only update the reported state; anything else reaches the unit
+        if (property === 'on' && body.reason !== 'StateCorrectionByUser') {
+          pod.physicallyOn = body.newValue as boolean;
+        }
+        this.logger.info(`Pod ${pod.id} ${property} set to ${body.newValue} (${body.reason ?? 'no reason'})`);
+        this.sendJson(res, 200, {
+          status: 'success',
+          result: { id: `${Date.now()}`, status: 'Success', acState: pod.acState, changedProperties },
+        });
+        return;
+      }
+      case 'GET timer': {
+        const { timer } = pod;
+        this.sendJson(res, 200, {
+          status: 'success',
+          result: timer && {
+            ...timer,
+            createTimeSecondsAgo: Math.round((Date.now() - Date.parse(timer.createTime)) / 1000),
+            targetTimeSecondsFromNow: Math.round((Date.parse(timer.targetTime) - Date.now()) / 1000),
+          },
+        });
+        return;
+      }
+      case 'PUT timer': {
+        const body = await this.readBody(req);
+        if (typeof body.minutesFromNow !== 'number' || body.minutesFromNow <= 0) {
+          throw new SimulatorError(400, 'minutesFromNow must be a positive number');
+        }
+        if (!body.acState || typeof body.acState !== 'object') {
+          throw new SimulatorError(400, 'acState is required');
+        }
+        pod.timer = {
+          id: `${Date.now()}`,
+          isEnabled: true,
+          acState: { ...pod.acState, ...(body.acState as Partial<ACState>) },
+          createTime: new Date().toISOString(),
+          targetTime: new Date(Date.now() + body.minutesFromNow * 60000).toISOString(),
+        };
+        this.logger.info(`Pod ${pod.id} timer set for ${pod.timer.targetTime}`, pod.timer.acState);
+        this.sendJson(res, 200, { status: 'success', result: { id: pod.timer.id } });
+        return;
+      }
+      case 'DELETE timer':
+        pod.timer = null;
+        this.logger.info(`Pod ${pod.id} timer deleted`);
+        this.sendJson(res, 200, { status: 'success', result: {} });
+        return;
+      case 'GET measurements':
+        this.sendJson(res, 200, {
+          status: 'success',
+          result: [{
+            time: { secondsAgo: 0, time: new Date().toISOString() },
+            temperature: pod.room.getTemperature(),
+            humidity: pod.room.getHumidity(),
+          }],
+        });
+        return;
+      default:
+        throw new SimulatorError(405, 'Method not allowed');
+    }
+  }
+
+  private async handleControlRequest(
+    method: string,
+    pathname: string,
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    if (method === 'GET' && pathname === '/__sim/state') {
+      const pods = [...this.pods.values()].map(pod => {
+        this.updatePod(pod);
+        return {
+          id: pod.id,
+          name: pod.name,
+          acState: pod.acState,
+          timer: pod.timer,
+          physicallyOn: pod.physicallyOn,
+          roomTemperature: pod.room.getTemperature(),
+          humidity: pod.room.getHumidity(),
+        };
+      });
+      this.sendJson(res, 200, { faults: this.faults, pods });
+      return;
+    }
+
+    if (method === 'POST' && pathname === '/__sim/faults') {
+      const body = await this.readBody(req);
+      const faults: Partial<FaultOptions> = {};
+      for (const key of ['failureRate', 'rateLimitRate', 'retryAfter', 'latency'] as const) {
+        if (body[key] !== undefined) {
+          if (typeof body[key] !== 'number' || (body[key] as number) < 0) {
+            throw new SimulatorError(400, `${key} must be a non-negative number`);
+          }
+          faults[key] = body[key] as number;
+        }
+      }
+      this.setFaults(faults);
+      this.sendJson(res, 200, { faults: this.faults });
+      return;
+    }
+
+    const desyncMatch = pathname.match(/^\/__sim\/pods\/([^/]+)\/desync$/);
+    if (method === 'POST' && desyncMatch) {
+      this.desync(desyncMatch[1]);
+      this.sendJson(res, 200, { status: 'success' });
+      return;
+    }
+
+    throw new SimulatorError(404, 'Not found');
+  }
+
+  private async injectFaults(res: http.ServerResponse): Promise<void> {
+    if (this.faults.latency > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.faults.latency));
+    }
+
+    if (Math.random() < this.faults.rateLimitRate) {
+      this.logger.info('Injecting 429 Too Many Requests');
+      res.setHeader('Retry-After', String(this.faults.retryAfter));
+      this.sendJson(res, 429, { status: 'failure', reason: 'Too many requests' });
+      return;
+    }
+
+    if (Math.random() < this.faults.failureRate) {
+      this.logger.info('Injecting 500 Internal Server Error');
+      this.sendJson(res, 500, { status: 'failure', reason: 'Injected failure' });
+    }
+  }
+
+  // Advances the room model and fires a timer that has come due since the last request
+  private updatePod(pod: SimulatedPod): void {
+    pod.room.update(pod.acState, pod.physicallyOn);
+    if (pod.timer?.isEnabled && Date.parse(pod.timer.targetTime) <= Date.now()) {
+      pod.acState = pod.timer.acState;
+      pod.physicallyOn = pod.acState.on;
+      pod.timer = null;
+      this.logger.info(`Pod ${pod.id} timer fired`, pod.acState);
+    }
+  }
+
+  private getPod(podId: string): SimulatedPod {
+    const pod = this.pods.get(podId);
+    if (!pod) {
+      throw new SimulatorError(404, `Pod ${podId} not found`);
+    }
+    return pod;
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+    return new Promise((resolve, reject) => {
+      let body = '';
+      req.setEncoding('utf-8');
+      req.on('data', (chunk: string) => {
+        body += chunk;
+      });
+      req.on('end', () => {
+        try {
+          const parsed = body ? JSON.parse(body) : {};
+          if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+            throw new Error('not an object');
+          }
+          resolve(parsed);
+        } catch {
+          reject(new SimulatorError(400, 'Request body must be a JSON object'));
+        }
+      });
+      req.on('error', reject);
+    });
+  }
+
+  private sendJson(res: http.ServerResponse, statusCode: number, body: unknown): void {
+    if (res.headersSent) {
+      return;
+    }
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,239 @@
+import fs from 'fs';
+import path from 'path';
+import winston from 'winston';
+import { Locale } from './messages.js';
+
+export const SPEECH_BACKENDS = ['auto', 'sapi', 'say', 'espeak-ng', 'espeak', 'spd-say', 'console'] as const;
+export type SpeechBackendName = typeof SPEECH_BACKENDS[number];
+
+// Backends that speak, and so have voices to choose from
+export const VOICE_BACKENDS = ['sapi', 'say', 'espeak-ng', 'espeak', 'spd-say'] as const;
+export type VoiceBackendName = typeof VOICE_BACKENDS[number];
+
+// Voice per backend, e.g. { "sapi": "Microsoft Zira Desktop", "espeak-ng": "en-us" }
+export type VoiceNames = Partial<Record<VoiceBackendName, string>>;
+
+export interface SpeechCommand {
+  command: string;
+  args: string[];
+  env?: NodeJS.ProcessEnv; // Extra environment variables
+  input?: string; // Written to stdin
+}
+
+/**
+ * Turns text into a process invocation. Volume is 0-100 and rate is -10 to 10
+ * (SAPI semantics, 0 = normal speed); each backend maps them to its own scale.
+ * Returning null means the backend doesn't spawn anything.
+ */
+export interface SpeechBackend {
+  readonly name: SpeechBackendName;
+  createCommand(text: string, volume: number, rate: number): SpeechCommand | null;
+  // Plays a WAV file, e.g. an earcon; null if the platform has no player for it
+  createPlayCommand(file: string): SpeechCommand | null;
+}
+
+// Words per minute for a -10..10 rate: roughly 1/3x to 3x of normal speed, like SAPI
+function wordsPerMinute(rate: number, normal: number): number {
+  return Math.round(normal * Math.pow(3, rate / 10));
+}
+
+class SapiBackend implements SpeechBackend {
+  readonly name = 'sapi' as const;
+
+  constructor(private voice?: string) {}
+
+  createCommand(text: string, volume: number, rate: number): SpeechCommand {
+    // Use environment variable approach for safe parameter passing on Windows
+    return {
+      command: 'powershell',
+      args: [
+        '-NoProfile',
+        '-ExecutionPolicy', 'Bypass',
+        '-Command',
+        `Add-Type -AssemblyName System.Speech; ` +
+        `$speak = New-Object System.Speech.Synthesis.SpeechSynthesizer; ` +
+        (this.voice ? `$speak.SelectVoice([System.Environment]::GetEnvironmentVariable('SPEECH_VOICE')); ` : '') +
+        `$speak.Volume = ${volume}; ` +
+        `$speak.Rate = ${rate}; ` +
+        `$speak.Speak([System.Environment]::GetEnvironmentVariable('SPEECH_TEXT')); ` +
+        `$speak.Dispose();`
+      ],
+      // Pass text and voice via environment variables to avoid injection
+      env: this.voice ? { SPEECH_TEXT: text, SPEECH_VOICE: this.voice } : { SPEECH_TEXT: text },
+    };
+  }
+
+  createPlayCommand(file: string): SpeechCommand {
+    return {
+      command: 'powershell',
+      args: [
+        '-NoProfile',
+        '-ExecutionPolicy', 'Bypass',
+        '-Command',
+        `(New-Object System.Media.SoundPlayer ([System.Environment]::GetEnvironmentVariable('SOUND_FILE'))).PlaySync();`,
+      ],
+      env: { SOUND_FILE: file },
+    };
+  }
+}
+
+class SayBackend implements SpeechBackend {
+  readonly name = 'say' as const;
+
+  constructor(private voice?: string) {}
+
+  createCommand(text: string, volume: number, rate: number): SpeechCommand {
+    // say has no volume flag; the embedded [[volm]] command sets it (0.0-1.0)
+    return {
+      command: 'say',
+      args: [...(this.voice ? ['-v', this.voice] : []), '-r', String(wordsPerMinute(rate, 175)), '-f', '-'],
+      input: `[[volm ${(volume / 100).toFixed(2)}]] ${text}`,
+    };
+  }
+
+  createPlayCommand(file: string): SpeechCommand {
+    return { command: 'afplay', args: [file] };
+  }
+}
+
+// Plays files on Linux, with PulseAudio or PipeWire if running, else ALSA
+function linuxPlayCommand(file: string): SpeechCommand | null {
+  if (isOnPath('paplay')) return { command: 'paplay', args: [file] };
+  if (isOnPath('aplay')) return { command: 'aplay', args: ['-q', file] };
+  return null;
+}
+
+class EspeakBackend implements SpeechBackend {
+  // voice is an espeak voice or language, e.g. "en-us" or "he"
+  constructor(readonly name: 'espeak' | 'espeak-ng', private voice: string) {}
+
+  createPlayCommand(file: string): SpeechCommand | null {
+    return linuxPlayCommand(file);
+  }
+
+  createCommand(text: string, volume: number, rate: number): SpeechCommand {
+    // Amplitude is 0-200 with 100 as the default
+    return {
+      command: this.name,
+      args: ['-v', this.voice, '-a', String(volume * 2), '-s', String(wordsPerMinute(rate, 175)), '--stdin'],
+      input: text,
+    };
+  }
+}
+
+class SpdSayBackend implements SpeechBackend {
+  readonly name = 'spd-say' as const;
+
+  // Speech Dispatcher picks a voice for the language; a configured voice is a synthesis voice name
+  constructor(private language: string, private voice?: string) {}
+
+  createPlayCommand(file: string): SpeechCommand | null {
+    return linuxPlayCommand(file);
+  }
+
+  createCommand(text: string, volume: number, rate: number): SpeechCommand {
+    // Rate and volume are both -100..100
+    return {
+      command: 'spd-say',
+      args: [
+        '--wait', '-l', this.language, ...(this.voice ? ['-y', this.voice] : []),
+        '-r', String(rate * 10), '-i', String(volume * 2 - 100), '--', text,
+      ],
+    };
+  }
+}
+
+class ConsoleBackend implements SpeechBackend {
+  readonly name = 'console' as const;
+
+  createCommand(): null {
+    return null;
+  }
+
+  createPlayCommand(): null {
+    return null;
+  }
+}
+
+function isOnPath(binary: string): boolean {
+  const extensions = process.platform === 'win32'
+    ? (process.env.PATHEXT || '.EXE;.CMD;.BAT').split(';')
+    : [''];
+  return (process.env.PATH || '').split(path.delimiter).filter(Boolean).some(dir =>
+    extensions.some(extension => {
+      try {
+        fs.accessSync(path.join(dir, binary + extension), fs.constants.X_OK);
+        return true;
+      } catch {
+        return false;
+      }
+    })
+  );
+}
+
+// sapi and say default to the system voice; espeak and spd-say to one for the locale's language
+function instantiate(name: Exclude<SpeechBackendName, 'auto'>, voices: VoiceNames, locale: Locale): SpeechBackend {
+  switch (name) {
+    case 'sapi':
+      return new SapiBackend(voices.sapi);
+    case 'say':
+      return new SayBackend(voices.say);
+    case 'espeak':
+    case 'espeak-ng':
+      return new EspeakBackend(name, voices[name] ?? locale);
+    case 'spd-say':
+      return new SpdSayBackend(locale, voices['spd-say']);
+    case 'console':
+      return new ConsoleBackend();
+  }
+}
+
+function isAvailable(name: Exclude<SpeechBackendName, 'auto'>): boolean {
+  switch (name) {
+    case 'sapi':
+      return process.platform === 'win32' && isOnPath('powershell');
+    case 'console':
+      return true;
+    default:
+      return isOnPath(name);
+  }
+}
+
+const PLATFORM_CANDIDATES: Partial<Record<NodeJS.Platform, Array<Exclude<SpeechBackendName, 'auto'>>>> = {
+  win32: ['sapi'],
+  darwin: ['say'],
+  linux: ['espeak-ng', 'espeak', 'spd-say'],
+};
+
+/**
+ * Picks the speech backend. 'auto' tries the platform's usual engines in
+ * order; an explicitly requested backend whose binary is missing falls back
+ * to console output rather than failing every announcement. The backend
+ * speaks with its voice from voices, if there is one.
+ */
+export function createSpeechBackend(
+  requested: SpeechBackendName,
+  logger: winston.Logger,
+  voices: VoiceNames = {},
+  locale: Locale = 'en'
+): SpeechBackend {
+  if (requested !== 'auto') {
+    if (isAvailable(requested)) {
+      return instantiate(requested, voices, locale);
+    }
+    logger.warn(`Speech backend "${requested}" is not available, announcements will only be logged`);
+    return new ConsoleBackend();
+  }
+
+  const candidate = (PLATFORM_CANDIDATES[process.platform] || []).find(isAvailable);
+  if (candidate) {
+    return instantiate(candidate, voices, locale);
+  }
+
+  logger.warn('No speech engine found, announcements will only be logged');
+  return new ConsoleBackend();
+}
+
+export function createConsoleBackend(): SpeechBackend {
+  return new ConsoleBackend();
+}
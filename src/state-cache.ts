@@ -0,0 +1,80 @@
+import { EventEmitter } from 'events';
+import { ACState } from './types.js';
+
+// Properties compared between states; anything else the API returns is ignored
+const TRACKED_PROPERTIES = ['on', 'mode', 'targetTemperature', 'temperatureUnit', 'fanLevel', 'swing'] as const;
+
+export type StateDiff = {
+  [K in typeof TRACKED_PROPERTIES[number]]?: { from: ACState[K]; to: ACState[K] };
+};
+
+// 'controller' for changes this process made, 'external' for anything seen only when reading the state
+export type StateChangeSource = 'controller' | 'external';
+
+export interface StateChangedEvent {
+  deviceId: string;
+  previous: ACState;
+  current: ACState;
+  diff: StateDiff;
+  source: StateChangeSource;
+}
+
+export interface StateCacheEvents {
+  stateChanged: [StateChangedEvent];
+}
+
+interface CacheEntry {
+  state: ACState;
+  time: number; // When the state was observed or written (ms)
+}
+
+export function diffStates(previous: ACState, current: ACState): StateDiff {
+  const diff: Record<string, { from: unknown; to: unknown }> = {};
+  TRACKED_PROPERTIES.forEach(property => {
+    if (previous[property] !== current[property]) {
+      diff[property] = { from: previous[property], to: current[property] };
+    }
+  });
+  return diff as StateDiff;
+}
+
+/**
+ * Last known AC state per device. Writes by the controller and reads from the
+ * API both go through update(); a read that differs from the cached state is
+ * a change made elsewhere (app, remote, Climate React) and is emitted as
+ * 'external'.
+ */
+export class StateCache extends EventEmitter<StateCacheEvents> {
+  private entries = new Map<string, CacheEntry>();
+
+  // Cached state if it is at most maxAge ms old
+  get(deviceId: string, maxAge: number): ACState | null {
+    const entry = this.entries.get(deviceId);
+    if (!entry || Date.now() - entry.time > maxAge) {
+      return null;
+    }
+    return entry.state;
+  }
+
+  /**
+   * Stores a state. observedAt is when it was requested from the API, so a
+   * read that was in flight while the controller wrote a newer state doesn't
+   * overwrite it or count as an external change.
+   */
+  update(deviceId: string, state: ACState, source: StateChangeSource, observedAt: number = Date.now()): void {
+    const previous = this.entries.get(deviceId);
+    if (previous && observedAt < previous.time) {
+      return;
+    }
+
+    this.entries.set(deviceId, { state, time: observedAt });
+    if (!previous) {
+      return;
+    }
+
+    const diff = diffStates(previous.state, state);
+    if (Object.keys(diff).length > 0) {
+      this.emit('stateChanged', { deviceId, previous: previous.state, current: state, diff, source });
+    }
+  }
+}
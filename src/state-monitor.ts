@@ -0,0 +1,52 @@
+import winston from 'winston';
+import { SensiboAPI } from './sensibo-api.js';
+import { Device } from './types.js';
+
+/**
+ * Reads the state of every device at a fixed interval. The reads refresh the
+ * SensiboAPI state cache, which emits stateChanged for changes made outside
+ * the controller.
+ */
+export class StateMonitor {
+  private logger: winston.Logger;
+  private pollInterval: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(private sensiboAPI: SensiboAPI, private intervalSeconds: number, logger: winston.Logger) {
+    this.logger = logger;
+  }
+
+  start(getDevices: () => Device[]): void {
+    if (this.intervalSeconds === 0) {
+      this.logger.info('State monitoring disabled');
+      return;
+    }
+    this.pollInterval = setInterval(() => this.poll(getDevices()), this.intervalSeconds * 1000);
+  }
+
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+  }
+
+  private async poll(devices: Device[]): Promise<void> {
+    // Skip if the previous round is still waiting on the API
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      for (const device of devices) {
+        try {
+          await this.sensiboAPI.getCurrentState(device.id);
+        } catch {
+          // Logged by SensiboAPI; the next round tries again
+          this.logger.debug(`State poll for ${device.name} failed`);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { Writable } from 'stream';
+import winston from 'winston';
+import { SensiboAPI } from './sensibo-api.js';
+import { RoomModelOptions } from './simulator/room-model.js';
+import { SensiboSimulator } from './simulator/server.js';
+import { ACState, SensiboConfig } from './types.js';
+
+export const POD_ID = 'sim-test';
+
+export const silentLogger = winston.createLogger({ silent: true });
+
+// What the simulator's control API reports about a pod
+export interface SimulatedPodState {
+  acState: ACState; // What Sensibo reports
+  physicallyOn: boolean; // What the unit is actually doing
+  roomTemperature: number;
+}
+
+export interface TestSimulator {
+  simulator: SensiboSimulator;
+  url: string;
+  requests: string[]; // "METHOD /path" of every API request, in order
+  api(settings?: Partial<SensiboConfig>): SensiboAPI;
+  podState(): Promise<ACState>;
+  pod(): Promise<SimulatedPodState>;
+  stop(): Promise<void>;
+}
+
+/**
+ * Starts a simulator with one pod on a free port, for tests that talk to
+ * the Sensibo API. The simulator logs each request at debug level, which is
+ * how requests are recorded. The room runs in real time unless room says
+ * otherwise.
+ */
+export async function startSimulator(room: Partial<RoomModelOptions> = {}): Promise<TestSimulator> {
+  const requests: string[] = [];
+  const logger = winston.createLogger({
+    level: 'debug',
+    transports: [new winston.transports.Stream({
+      stream: new Writable({
+        objectMode: true,
+        write(info: winston.Logform.TransformableInfo, _encoding, callback) {
+          if (info.level === 'debug' && typeof info.message === 'string' && !info.message.includes('/__sim')) {
+            requests.push(info.message);
+          }
+          callback();
+        },
+      }),
+    })],
+  });
+
+  const simulator = new SensiboSimulator({
+    port: 0,
+    pods: [{ id: POD_ID, name: 'Test Room' }],
+    room: { initialTemperature: 28, outdoorTemperature: 32, humidity: 60, timeScale: 1, ...room },
+    faults: { failureRate: 0, rateLimitRate: 0, retryAfter: 0, latency: 0 },
+  }, logger);
+  const port = await simulator.start();
+  const url = `http://127.0.0.1:${port}/api/v2`;
+  const pod = async () => {
+    const response = await fetch(`http://127.0.0.1:${port}/__sim/state`);
+    const body = await response.json() as { pods: SimulatedPodState[] };
+    return body.pods[0];
+  };
+
+  return {
+    simulator,
+    url,
+    requests,
+    api: settings => new SensiboAPI({
+      apiKey: 'test',
+      devices: [{ id: POD_ID }],
+      deviceId: POD_ID,
+      apiUrl: url,
+      minTemp: 16,
+      maxTemp: 30,
+      voiceVolume: 0,
+      maxRetries: 3,
+      retryDelay: 10,
+      stateCacheTtl: 60,
+      circuitBreaker: { failureThreshold: 5, resetTimeout: 60 },
+      ...settings,
+    }, silentLogger),
+    podState: async () => (await pod()).acState,
+    pod,
+    stop: () => simulator.stop(),
+  };
+}
+
+// Resolves once the condition holds, checking every 10ms; fails the test after the timeout
+export async function waitFor(condition: () => boolean | Promise<boolean>, timeout = 2000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!await condition()) {
+    if (Date.now() > deadline) {
+      throw new Error(`Condition not met within ${timeout}ms`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
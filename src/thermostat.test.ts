@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Thermostat } from './thermostat.js';
+import { ThermostatConfig } from './types.js';
+import { POD_ID, silentLogger, startSimulator, TestSimulator, waitFor } from './test-support.js';
+
+// Polls every 50ms and may switch the unit again right away; the simulated room is at 28°C
+const CONFIG: ThermostatConfig = { strategy: 'power', hysteresis: 0.5, minOnTime: 0, minOffTime: 0, pollInterval: 0.05 };
+
+describe('Thermostat against the simulator', () => {
+  let sim: TestSimulator;
+  let thermostat: Thermostat;
+  beforeEach(async () => { sim = await startSimulator(); });
+  afterEach(async () => {
+    thermostat.disable();
+    await sim.stop();
+  });
+
+  function start(config: ThermostatConfig, setpoint: number): void {
+    thermostat = new Thermostat(
+      sim.api(), (_name, run) => run(new AbortController().signal), config, { minTemp: 16, maxTemp: 30 }, silentLogger
+    );
+    thermostat.enable(POD_ID, setpoint);
+  }
+
+  it('turns the unit on when the room is warmer than the band, with the power strategy', async () => {
+    start(CONFIG, 24);
+
+    await waitFor(async () => (await sim.podState()).on);
+  });
+
+  it('leaves the unit off inside the band', async () => {
+    start({ ...CONFIG, hysteresis: 2 }, 27);
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    assert.equal((await sim.podState()).on, false);
+  });
+
+  it('lowers the target one degree at a time while cooling, with the nudge strategy', async () => {
+    await sim.api().setACState({ on: true, targetTemperature: 24 });
+    start({ ...CONFIG, strategy: 'nudge' }, 24);
+
+    await waitFor(async () => (await sim.podState()).targetTemperature === 21);
+    await new Promise(resolve => setTimeout(resolve, 200));
+    // No further than three degrees from the setpoint
+    assert.equal((await sim.podState()).targetTemperature, 21);
+  });
+
+  it('polls at a reloaded interval once rescheduled', async () => {
+    await sim.api().setACState({ on: true, targetTemperature: 24 });
+    const config: ThermostatConfig = { ...CONFIG, strategy: 'nudge', pollInterval: 60 };
+    start(config, 24);
+    await waitFor(async () => (await sim.podState()).targetTemperature === 23);
+
+    // A config reload updates the shared config object in place
+    config.pollInterval = 0.05;
+    thermostat.reschedule();
+    await waitFor(async () => (await sim.podState()).targetTemperature === 21);
+  });
+
+  it('stops when the unit is turned off elsewhere, instead of turning it back on', async () => {
+    start(CONFIG, 24);
+    let stopped = 0;
+    thermostat.on('stopped', () => stopped++);
+    await waitFor(async () => (await sim.podState()).on);
+
+    // Off in the Sensibo app; the thermostat sees it on its next read
+    await sim.api().setACState({ on: false });
+    await waitFor(() => !thermostat.isEnabled());
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    assert.equal((await sim.podState()).on, false);
+    assert.equal(stopped, 1);
+  });
+
+  it('stops when a command turns its device off', () => {
+    start(CONFIG, 24);
+    let stopped = 0;
+    thermostat.on('stopped', () => stopped++);
+
+    thermostat.powerTurnedOff('another-device');
+    assert.ok(thermostat.isEnabled());
+    thermostat.powerTurnedOff(POD_ID);
+    assert.ok(!thermostat.isEnabled());
+    assert.equal(stopped, 1);
+  });
+});
@@ -0,0 +1,185 @@
+import { EventEmitter } from 'events';
+import winston from 'winston';
+import { SensiboAPI } from './sensibo-api.js';
+import { ACState, ThermostatConfig } from './types.js';
+import { TemperatureLimits, convertTemperature, limitsFor } from './ac-state.js';
+import { StateChangedEvent } from './state-cache.js';
+
+// How far the nudge strategy may move the unit's target away from the setpoint
+const MAX_NUDGE = 3;
+
+// Runs a step through the controller's command queue; null if it was dropped
+export type ThermostatQueue = (name: string, run: (signal: AbortSignal) => Promise<void>) => Promise<void | null>;
+
+export interface ThermostatEvents {
+  stopped: []; // Disabled because the unit was turned off by hand
+}
+
+/**
+ * Closed-loop control from room measurements. The 'power' strategy switches
+ * the unit on and off around the setpoint; the 'nudge' strategy keeps it on
+ * and shifts its target temperature one degree at a time. Either way, the
+ * unit is not switched again before the minimum on/off time has passed.
+ * Turning the unit off, from the controller or elsewhere, disables it, so
+ * the next poll doesn't turn the unit back on.
+ */
+export class Thermostat extends EventEmitter<ThermostatEvents> {
+  private logger: winston.Logger;
+  private pollInterval: NodeJS.Timeout | null = null;
+  private deviceId: string | null = null;
+  private setpoint = 0;
+  private lastChange = 0; // Time of the last switch or nudge (ms)
+  private polling = false;
+
+  constructor(
+    private sensiboAPI: SensiboAPI,
+    private enqueue: ThermostatQueue,
+    private config: ThermostatConfig,
+    private limits: TemperatureLimits,
+    logger: winston.Logger
+  ) {
+    super();
+    this.logger = logger;
+    this.sensiboAPI.stateCache.on('stateChanged', event => this.onStateChanged(event));
+  }
+
+  isEnabled(): boolean {
+    return this.deviceId !== null;
+  }
+
+  getSetpoint(): number {
+    return this.setpoint;
+  }
+
+  getDeviceId(): string | null {
+    return this.deviceId;
+  }
+
+  enable(deviceId: string, setpoint: number): void {
+    this.disable();
+    this.deviceId = deviceId;
+    this.setpoint = setpoint;
+    this.lastChange = 0; // Allow acting on the first reading
+    this.logger.info(`Thermostat enabled for ${deviceId}: holding ${setpoint} (${this.config.strategy} strategy)`);
+
+    this.pollInterval = setInterval(() => this.poll(), this.config.pollInterval * 1000);
+    this.poll();
+  }
+
+  disable(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+    if (this.deviceId) {
+      this.logger.info('Thermostat disabled');
+    }
+    this.deviceId = null;
+  }
+
+  // Restarts polling at the configured interval, which a config reload may have changed
+  reschedule(): void {
+    if (!this.pollInterval) return;
+    clearInterval(this.pollInterval);
+    this.pollInterval = setInterval(() => this.poll(), this.config.pollInterval * 1000);
+  }
+
+  // The unit was turned off by a command; the thermostat's own switches don't count
+  powerTurnedOff(deviceId: string): void {
+    if (this.deviceId !== deviceId) return;
+    this.logger.info(`${deviceId} turned off, stopping the thermostat`);
+    this.disable();
+    this.emit('stopped');
+  }
+
+  // Off in the Sensibo app, with the remote or by Climate React
+  private onStateChanged({ deviceId, diff, current, source }: StateChangedEvent): void {
+    if (source === 'external' && diff.on && !current.on) {
+      this.powerTurnedOff(deviceId);
+    }
+  }
+
+  setSetpoint(setpoint: number): void {
+    this.setpoint = setpoint;
+    this.logger.info(`Thermostat setpoint changed to ${setpoint}`);
+  }
+
+  private async poll(): Promise<void> {
+    // Skip if the previous poll is still waiting on the API
+    if (this.polling || !this.deviceId) return;
+    this.polling = true;
+    const deviceId = this.deviceId;
+
+    try {
+      // Queued like any command, so the state a decision is based on can't change before it is applied
+      await this.enqueue('Thermostat', () => this.step(deviceId));
+    } catch (error) {
+      this.logger.error('Thermostat poll failed:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async step(deviceId: string): Promise<void> {
+    // Disabled while waiting in the queue
+    if (this.deviceId !== deviceId) return;
+
+    const [state, roomCelsius] = await Promise.all([
+      this.sensiboAPI.getCurrentState(deviceId),
+      this.sensiboAPI.getRoomTemperature(deviceId),
+    ]);
+    // Disabled while waiting for the API
+    if (this.deviceId !== deviceId) return;
+    // The setpoint is in the device's unit; measurements are always Celsius
+    const roomTemp = convertTemperature(roomCelsius, 'C', state.temperatureUnit);
+
+    const change = this.config.strategy === 'power'
+      ? this.powerDecision(state, roomTemp)
+      : this.nudgeDecision(state, roomTemp);
+    if (!change) return;
+
+    // Turning on ends an off period; anything else happens while running
+    const sinceChange = (Date.now() - this.lastChange) / 60000;
+    const minimum = change.on === true ? this.config.minOffTime : this.config.minOnTime;
+    if (sinceChange < minimum) {
+      this.logger.debug(`Thermostat waiting for minimum cycle time (${sinceChange.toFixed(1)}/${minimum} min)`);
+      return;
+    }
+
+    this.logger.info(`Thermostat: room ${roomTemp.toFixed(1)}°${state.temperatureUnit}, setpoint ${this.setpoint}°${state.temperatureUnit}, applying`, change);
+    await this.sensiboAPI.setACState(change, undefined, deviceId);
+    this.lastChange = Date.now();
+  }
+
+  // 1 when the room needs the unit, -1 when it has overshot the band, 0 inside it
+  private demand(state: ACState, roomTemp: number): number {
+    const error = state.mode === 'heat' ? this.setpoint - roomTemp : roomTemp - this.setpoint;
+    // Hysteresis is configured in Celsius degrees
+    const band = state.temperatureUnit === 'F' ? this.config.hysteresis * 9 / 5 : this.config.hysteresis;
+    if (error > band) return 1;
+    if (error < -band) return -1;
+    return 0;
+  }
+
+  private powerDecision(state: ACState, roomTemp: number): Partial<ACState> | null {
+    const demand = this.demand(state, roomTemp);
+    if (demand > 0 && !state.on) return { on: true };
+    if (demand < 0 && state.on) return { on: false };
+    return null;
+  }
+
+  private nudgeDecision(state: ACState, roomTemp: number): Partial<ACState> | null {
+    const demand = this.demand(state, roomTemp);
+    if (demand === 0) return null;
+
+    // Cooling lowers the target to cool harder; heating raises it
+    const direction = state.mode === 'heat' ? demand : -demand;
+    const limits = limitsFor(this.limits, state.temperatureUnit);
+    const lower = Math.max(limits.minTemp, this.setpoint - MAX_NUDGE);
+    const upper = Math.min(limits.maxTemp, this.setpoint + MAX_NUDGE);
+    const target = Math.max(lower, Math.min(upper, state.targetTemperature + direction));
+
+    if (target === state.targetTemperature && state.on) return null;
+    return state.on ? { targetTemperature: target } : { on: true, targetTemperature: target };
+  }
+}
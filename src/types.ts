@@ -1,8 +1,20 @@
+import { SpeechBackendName, VoiceNames } from './speech.js';
+import { CircuitBreakerConfig } from './circuit-breaker.js';
+import { Keymap } from './keymap.js';
+import { Locale, MessageOverrides } from './messages.js';
+
 export type ACMode = 'cool' | 'heat' | 'fan' | 'auto' | 'dry';
 export type FanLevel = 'auto' | 'low' | 'medium' | 'high' | 'quiet';
 export type SwingMode = 'stopped' | 'fixedTop' | 'fixedMiddleTop' | 'fixedMiddle' | 'fixedMiddleBottom' | 'fixedBottom' | 'rangeTop' | 'rangeMiddle' | 'rangeBottom' | 'rangeFull';
 export type TemperatureUnit = 'C' | 'F';
 
+export const AC_MODES: ACMode[] = ['cool', 'heat', 'fan', 'auto', 'dry'];
+export const FAN_LEVELS: FanLevel[] = ['auto', 'low', 'medium', 'high', 'quiet'];
+export const SWING_MODES: SwingMode[] = [
+  'stopped', 'fixedTop', 'fixedMiddleTop', 'fixedMiddle', 'fixedMiddleBottom', 'fixedBottom',
+  'rangeTop', 'rangeMiddle', 'rangeBottom', 'rangeFull',
+];
+
 export interface ACState {
   on: boolean;
   mode: ACMode;
@@ -12,6 +24,25 @@ export interface ACState {
   swing?: SwingMode;
 }
 
+// What the unit supports in one mode, from the pod's remoteCapabilities
+export interface ModeCapabilities {
+  temperatures?: Partial<Record<TemperatureUnit, { isNative?: boolean; values: number[] }>>; // Missing in modes without a target, e.g. fan
+  fanLevels?: FanLevel[];
+  swing?: SwingMode[];
+}
+
+export interface RemoteCapabilities {
+  modes: Partial<Record<ACMode, ModeCapabilities>>;
+}
+
+// Timer kept by Sensibo: the pod applies acState at targetTime, whether or not the controller is running
+export interface ACTimer {
+  id: string;
+  isEnabled: boolean;
+  acState: ACState;
+  targetTime: string; // ISO timestamp
+}
+
 export interface Measurement {
   time: {
     secondsAgo: number;
@@ -21,19 +52,95 @@ export interface Measurement {
   humidity: number;
 }
 
+export interface DeviceConfig {
+  id: string;
+  name?: string; // Defaults to the room name reported by Sensibo
+}
+
+export interface Device {
+  id: string;
+  name: string;
+}
+
 export interface SensiboConfig {
   apiKey: string;
-  deviceId: string;
+  devices: DeviceConfig[]; // Empty means use every device on the account
+  deviceId?: string; // Device active at startup
+
   apiUrl: string;
   minTemp: number;
   maxTemp: number;
   voiceVolume: number;
   maxRetries: number;
   retryDelay: number;
+  stateCacheTtl: number; // Seconds a cached state may be the base of a write, 0 always reads first
+  circuitBreaker: CircuitBreakerConfig;
+}
+
+export interface HttpConfig {
+  port: number;
+  token: string;
+}
+
+export interface MqttConfig {
+  url: string; // e.g. mqtt://localhost:1883
+  username?: string;
+  password?: string;
+  topicPrefix: string;
+  discoveryPrefix: string | null; // Home Assistant discovery prefix, null disables discovery
+  publishInterval: number; // Seconds between measurement updates
+}
+
+export interface ThermostatConfig {
+  strategy: 'power' | 'nudge';
+  hysteresis: number; // Degrees either side of the setpoint
+  minOnTime: number; // Minutes
+  minOffTime: number; // Minutes
+  pollInterval: number; // Seconds
+}
+
+export interface MonitorConfig {
+  pollInterval: number; // Seconds between state polls, 0 disables monitoring
+  notifications: 'voice' | 'log' | 'off'; // How external changes are reported
+}
+
+export interface HistoryConfig {
+  dir: string; // Directory for the daily JSONL files
+  sampleInterval: number; // Seconds between samples, 0 disables recording
+  retentionDays: number;
+}
+
+// What an announcement is about; decides whether it is spoken at a verbosity, and its place in the queue
+export type AnnouncementKind = 'error' | 'confirmation' | 'notification';
+
+// silent: nothing, errors: errors only, confirmations: also command results and requested reports, full: everything
+export type Verbosity = 'silent' | 'errors' | 'confirmations' | 'full';
+
+export interface QuietHoursConfig {
+  windows: Array<{ start: number; end: number }>; // Minutes since midnight; a window with end before start spans midnight
+  mode: 'volume' | 'earcon'; // Speak at volume, or play a short tone instead
+  volume: number; // 0-100, caps the voice volume and sets the tone's
 }
 
 export interface AppConfig extends SensiboConfig {
   logLevel: string;
+  voiceBackend: SpeechBackendName;
+  voices: VoiceNames; // Voice per speech backend; unset uses the backend's default for the locale
+  locale: Locale; // Language of announcements
+  messages: MessageOverrides; // Templates replacing those of the locale
+  verbosity: Verbosity;
+  quietHours: QuietHoursConfig;
+  displayUnit: 'device' | TemperatureUnit; // Unit for announcements
+  keymap: Keymap;
+  keymapSource: string; // Keymap file, or the config file for inline bindings; for messages
+  keymapFile: string | null; // Keymap file, watched for changes like the config file; null for inline bindings
+  scheduleFile: string;
+  presetsFile: string;
+  thermostat: ThermostatConfig;
+  history: HistoryConfig;
+  monitor: MonitorConfig;
+  http?: HttpConfig; // Local control API, disabled when unset
+  mqtt?: MqttConfig; // MQTT bridge, disabled when unset
 }
 
 export class ConfigurationError extends Error {
@@ -41,4 +148,21 @@ export class ConfigurationError extends Error {
     super(`Configuration errors: ${errors.join(', ')}`);
     this.name = 'ConfigurationError';
   }
-}
\ No newline at end of file
+}
+
+// Where a command came from, as recorded in the command history
+export type CommandSource = 'hotkey' | 'http' | 'mqtt' | 'schedule' | 'undo';
+
+export interface CommandResult {
+  success: boolean;
+  message: string;
+  invalid?: boolean; // Rejected before reaching the Sensibo API
+  superseded?: boolean; // Dropped in favour of a newer conflicting command
+}
+
+export interface StatusReport {
+  device: Device;
+  state: ACState;
+  roomTemperature: number;
+  timer: ACTimer | null; // Sensibo timer, including those set with the app
+}
@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it } from 'node:test';
+import { loadConfig } from './config.js';
+import { DEFAULT_KEYMAP } from './keymap.js';
+import { Messages } from './messages.js';
+import { SpeechBackend, SpeechCommand } from './speech.js';
+import { silentLogger } from './test-support.js';
+import { AnnouncementKind, QuietHoursConfig, Verbosity } from './types.js';
+import { inQuietHours, VoiceFeedback } from './voice.js';
+
+const at = (hours: number, minutes = 0) => new Date(2026, 0, 1, hours, minutes);
+const NIGHT: QuietHoursConfig = { windows: [{ start: 22 * 60, end: 7 * 60 }], mode: 'volume', volume: 10 };
+const ALWAYS: QuietHoursConfig['windows'] = [{ start: 0, end: 24 * 60 }];
+const NEVER: QuietHoursConfig = { windows: [], mode: 'volume', volume: 10 };
+
+// A backend that records what it is asked to play; each one takes a short process run
+function recordingBackend(): SpeechBackend & { played: string[] } {
+  const pause: SpeechCommand = { command: process.execPath, args: ['-e', 'setTimeout(() => {}, 20)'] };
+  const played: string[] = [];
+  return {
+    name: 'console',
+    played,
+    createCommand: (text, volume) => {
+      played.push(`${text} @${volume}`);
+      return pause;
+    },
+    createPlayCommand: file => {
+      played.push(path.basename(file));
+      return pause;
+    },
+  };
+}
+
+function voice(verbosity: Verbosity = 'full', quietHours: QuietHoursConfig = NEVER) {
+  const backend = recordingBackend();
+  return { backend, voice: new VoiceFeedback(silentLogger, backend, new Messages('en'), 30, { verbosity, quietHours }) };
+}
+
+describe('inQuietHours', () => {
+  it('spans midnight when a window ends before it starts', () => {
+    assert.ok(inQuietHours(NIGHT, at(23, 30)));
+    assert.ok(inQuietHours(NIGHT, at(0)));
+    assert.ok(inQuietHours(NIGHT, at(6, 59)));
+    assert.ok(!inQuietHours(NIGHT, at(7)));
+    assert.ok(!inQuietHours(NIGHT, at(21, 59)));
+  });
+
+  it('checks every window, each ending before its end minute', () => {
+    const config = { ...NIGHT, windows: [...NIGHT.windows, { start: 13 * 60, end: 15 * 60 }] };
+
+    assert.ok(inQuietHours(config, at(14)));
+    assert.ok(!inQuietHours(config, at(15)));
+    assert.ok(!inQuietHours(NEVER, at(3)));
+  });
+
+  it('reads windows such as "22:00-07:00" from the config file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'voice-test-'));
+    const file = path.join(dir, 'config.json');
+    const write = (windows: string[]) => fs.writeFileSync(file, JSON.stringify({
+      sensibo: { apiKey: 'test' }, keymap: DEFAULT_KEYMAP, voice: { quietHours: { windows } },
+    }));
+    try {
+      write(['22:00-07:00', '13:30-24:00']);
+      assert.deepEqual(loadConfig(file).quietHours.windows, [{ start: 1320, end: 420 }, { start: 810, end: 1440 }]);
+
+      write(['25:00-07:00', '10:00-10:00', '9-10']);
+      assert.throws(() => loadConfig(file), /quietHours\.windows\[0\]/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('VoiceFeedback', () => {
+  it('speaks one at a time, errors first, and a repeated announcement once', async () => {
+    const { backend, voice: feedback } = voice();
+    const announce = (text: string, kind: AnnouncementKind) => feedback.announce(text, kind);
+
+    await Promise.all([
+      announce('first', 'notification'), // Speaking while the rest arrive
+      announce('news', 'notification'),
+      announce('done', 'confirmation'),
+      announce('failed', 'error'),
+      announce('news', 'notification'),
+    ]);
+
+    assert.deepEqual(backend.played, ['first @30', 'failed @30', 'done @30', 'news @30']);
+  });
+
+  it('only speaks the kinds of the verbosity', async () => {
+    const { backend, voice: feedback } = voice('errors');
+
+    await feedback.announce('done', 'confirmation');
+    await feedback.announce('failed', 'error');
+
+    assert.deepEqual(backend.played, ['failed @30']);
+  });
+
+  it('speaks softer during quiet hours, or plays a tone instead', async () => {
+    const soft = voice('full', { windows: ALWAYS, mode: 'volume', volume: 10 });
+    await soft.voice.announce('done', 'confirmation');
+    assert.deepEqual(soft.backend.played, ['done @10']);
+
+    const tones = voice('full', { windows: ALWAYS, mode: 'earcon', volume: 10 });
+    await tones.voice.announce('done', 'confirmation');
+    assert.deepEqual(tones.backend.played, ['confirmation-10.wav']);
+  });
+});
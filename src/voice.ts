@@ -1,6 +1,93 @@
 import { ChildProcess } from 'child_process';
 import winston from 'winston';
+import { SpeechBackend, SpeechCommand, createConsoleBackend } from './speech.js';
+import { ACState, AnnouncementKind, QuietHoursConfig, TemperatureUnit, Verbosity } from './types.js';
+import { earconFile } from './earcons.js';
+import { convertTemperature } from './ac-state.js';
+import { HistorySummary, Trend } from './history.js';
+import { Message, Messages } from './messages.js';
+import { findCause } from './retry.js';
+import { CircuitOpenError } from './circuit-breaker.js';
+import { UnsupportedStateError } from './capabilities.js';
+import {
+  SensiboAuthError, SensiboError, SensiboNetworkError, SensiboNotFoundError, SensiboRateLimitError,
+  SensiboServerError, SensiboValidationError,
+} from './sensibo-errors.js';
 
+// Temperature changes smaller than this (in the display unit) are spoken as steady
+const STEADY_THRESHOLD = 0.3;
+
+// What a failed operation means for the user, and what they can do about it
+function describeError(error: unknown, operation: string): Message {
+  if (findCause(error, (cause): cause is CircuitOpenError => cause instanceof CircuitOpenError)) {
+    // While the circuit is open, every command fails at once with the same answer
+    return { key: 'error.unreachable' };
+  }
+  const unsupported = findCause(error, (cause): cause is UnsupportedStateError => cause instanceof UnsupportedStateError);
+  if (unsupported) {
+    return unsupported.reason; // e.g. "Fan quiet not supported in heat mode"
+  }
+
+  const sensiboError = findCause(error, (cause): cause is SensiboError => cause instanceof SensiboError);
+  if (sensiboError instanceof SensiboAuthError) {
+    return { key: 'error.auth' };
+  }
+  if (sensiboError instanceof SensiboNotFoundError) {
+    return { key: 'error.notFound' };
+  }
+  if (sensiboError instanceof SensiboValidationError) {
+    return { key: 'error.rejected', params: { operation } };
+  }
+  if (sensiboError instanceof SensiboRateLimitError) {
+    return { key: 'error.rateLimited' };
+  }
+  if (sensiboError instanceof SensiboNetworkError) {
+    return { key: 'error.network', params: { operation } };
+  }
+  if (sensiboError instanceof SensiboServerError) {
+    return { key: 'error.server', params: { operation } };
+  }
+  return { key: 'operation.failed', params: { operation } };
+}
+
+// Beyond this many waiting announcements the least important are dropped; errors never are
+const MAX_PENDING = 5;
+
+// Order of the queue: errors first, then command results, then everything else
+const PRIORITY: Record<AnnouncementKind, number> = { error: 2, confirmation: 1, notification: 0 };
+
+// Kinds spoken at each verbosity; the rest are only logged
+const SPOKEN: Record<Verbosity, AnnouncementKind[]> = {
+  silent: [],
+  errors: ['error'],
+  confirmations: ['error', 'confirmation'],
+  full: ['error', 'confirmation', 'notification'],
+};
+
+// Read on every announcement, so a reloaded config applies to the next one
+export interface VoiceSettings {
+  verbosity: Verbosity;
+  quietHours: QuietHoursConfig;
+}
+
+interface Announcement {
+  text: string;
+  kind: AnnouncementKind;
+  done: Array<() => void>; // Callers waiting for it, more than one once duplicates are collapsed
+}
+
+export function inQuietHours({ windows }: QuietHoursConfig, now: Date = new Date()): boolean {
+  const minute = now.getHours() * 60 + now.getMinutes();
+  return windows.some(({ start, end }) =>
+    start <= end ? minute >= start && minute < end : minute >= start || minute < end
+  );
+}
+
+/**
+ * Speaks announcements one at a time, most important first. Each one waits
+ * for the previous to finish instead of cutting it off; an announcement
+ * that is already waiting or being spoken is not repeated.
+ */
 export class VoiceFeedback {
   private logger: winston.Logger;
   private isSpeaking = false;
@@ -8,42 +95,140 @@ export class VoiceFeedback {
   private currentProcessTimeout: NodeJS.Timeout | null = null;
   private volume: number; // Volume (0-100 scale)
   private rate = 3; // Speech rate (0 = slowest, 10 = fastest, default is 0)
+  private backend: SpeechBackend;
+  private messages: Messages;
+  private settings: VoiceSettings;
+  private pending: Announcement[] = [];
+  private current: Announcement | null = null;
 
-  constructor(logger: winston.Logger, volume: number = 30) {
+  constructor(
+    logger: winston.Logger,
+    backend: SpeechBackend,
+    messages: Messages,
+    volume: number = 30,
+    settings: VoiceSettings = { verbosity: 'full', quietHours: { windows: [], mode: 'volume', volume: 10 } }
+  ) {
     this.logger = logger;
+    this.backend = backend;
+    this.messages = messages;
+    this.settings = settings;
     this.volume = Math.max(0, Math.min(100, volume));
-    this.logger.info(`Voice feedback initialized with volume: ${this.volume}`);
-  }
-
-  private createPowerShellCommand(): { command: string; args: string[] } {
-    // Use environment variable approach for safe parameter passing on Windows
-    const command = 'powershell';
-    const args = [
-      '-NoProfile',
-      '-ExecutionPolicy', 'Bypass',
-      '-Command',
-      `Add-Type -AssemblyName System.Speech; ` +
-      `$speak = New-Object System.Speech.Synthesis.SpeechSynthesizer; ` +
-      `$speak.Volume = ${this.volume}; ` +
-      `$speak.Rate = ${this.rate}; ` +
-      `$speak.Speak([System.Environment]::GetEnvironmentVariable('SPEECH_TEXT')); ` +
-      `$speak.Dispose();`
-    ];
-    
-    return { command, args };
-  }
-
-  speak(text: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (this.isSpeaking) {
-        this.logger.debug('Already speaking, stopping current speech');
-        this.stop();
+    this.logger.info(`Voice feedback initialized with backend: ${backend.name}, volume: ${this.volume}`);
+  }
+
+  // Resolves once the announcement has been spoken, dropped or left unspoken at the current verbosity
+  announce(text: string, kind: AnnouncementKind): Promise<void> {
+    const { verbosity } = this.settings;
+    if (!SPOKEN[verbosity].includes(kind)) {
+      this.logger.info(`Announcement (not spoken at verbosity ${verbosity}): ${text}`);
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+      const duplicate = [this.current, ...this.pending].find(announcement => announcement?.text === text);
+      if (duplicate) {
+        this.logger.debug(`Announcement already queued: ${text}`);
+        duplicate.done.push(resolve);
+        if (duplicate !== this.current && PRIORITY[kind] > PRIORITY[duplicate.kind]) {
+          duplicate.kind = kind;
+          this.sortPending();
+        }
+        return;
       }
 
-      this.isSpeaking = true;
-      this.logger.info(`Speaking at volume ${this.volume}: ${text}`);
+      this.pending.push({ text, kind, done: [resolve] });
+      this.sortPending();
+      this.trimPending();
+      this.playNext();
+    });
+  }
+
+  // Stable, so announcements of the same kind keep their order
+  private sortPending(): void {
+    this.pending.sort((a, b) => PRIORITY[b.kind] - PRIORITY[a.kind]);
+  }
 
-      const { command, args } = this.createPowerShellCommand();
+  private trimPending(): void {
+    while (this.pending.length > MAX_PENDING) {
+      const droppable = this.pending.filter(announcement => announcement.kind !== 'error');
+      if (droppable.length === 0) {
+        return;
+      }
+      // The oldest of the least important
+      const lowest = Math.min(...droppable.map(announcement => PRIORITY[announcement.kind]));
+      const dropped = droppable.find(announcement => PRIORITY[announcement.kind] === lowest)!;
+      this.pending.splice(this.pending.indexOf(dropped), 1);
+      this.logger.info(`Announcement dropped, too many waiting: ${dropped.text}`);
+      dropped.done.forEach(resolve => resolve());
+    }
+  }
+
+  private async playNext(): Promise<void> {
+    if (this.current) {
+      return;
+    }
+    const announcement = this.pending.shift();
+    if (!announcement) {
+      return;
+    }
+
+    this.current = announcement;
+    try {
+      await this.play(announcement);
+    } finally {
+      this.current = null;
+      announcement.done.forEach(resolve => resolve());
+    }
+    this.playNext();
+  }
+
+  // Quiet hours lower the volume, or replace the announcement with a tone
+  private play({ text, kind }: Announcement): Promise<void> {
+    const { quietHours } = this.settings;
+    if (!inQuietHours(quietHours)) {
+      return this.speak(text, this.volume);
+    }
+    const volume = Math.min(this.volume, quietHours.volume);
+    return quietHours.mode === 'volume' ? this.speak(text, volume) : this.playEarcon(text, kind, volume);
+  }
+
+  private speak(text: string, volume: number): Promise<void> {
+    const speechCommand = this.backend.createCommand(text, volume, this.rate);
+    if (!speechCommand) {
+      this.logger.info(`Announcement (${this.backend.name}): ${text}`);
+      return Promise.resolve();
+    }
+
+    this.logger.info(`Speaking at volume ${volume} (${this.backend.name}): ${text}`);
+    return this.run(speechCommand, error => {
+      // The engine is unusable (e.g. binary removed); keep announcing through the log
+      this.logger.error(`Speech backend "${this.backend.name}" failed, falling back to console:`, error);
+      this.backend = createConsoleBackend();
+      this.logger.info(`Announcement (${this.backend.name}): ${text}`);
+    });
+  }
+
+  private playEarcon(text: string, kind: AnnouncementKind, volume: number): Promise<void> {
+    let command: SpeechCommand | null = null;
+    try {
+      command = this.backend.createPlayCommand(earconFile(kind, volume));
+    } catch (error) {
+      this.logger.warn(`Failed to write the ${kind} tone:`, error);
+    }
+
+    this.logger.info(`Announcement (quiet hours, ${command ? `${kind} tone` : 'no sound player'}): ${text}`);
+    if (!command) {
+      return Promise.resolve();
+    }
+    // A missing player only costs the tone; speech keeps its backend
+    return this.run(command, error => this.logger.warn(`Failed to play the ${kind} tone:`, error));
+  }
+
+  // Runs a speech or player process; resolves when it exits, is stopped or fails to start
+  private run(speechCommand: SpeechCommand, onError: (error: Error) => void): Promise<void> {
+    return new Promise((resolve) => {
+      this.isSpeaking = true;
+      const { command, args, env, input } = speechCommand;
       
       // Use spawn with separate arguments for security
       import('child_process').then(({ spawn }) => {
@@ -52,11 +237,17 @@ export class VoiceFeedback {
           stdio: ['pipe', 'pipe', 'pipe'],
           env: {
             ...process.env,
-            SPEECH_TEXT: text // Pass text via environment variable to avoid injection
+            ...env
           }
         });
 
         const currentProcess = this.currentSpeechProcess;
+        if (input !== undefined) {
+          currentProcess.stdin?.on('error', () => {
+            // Process exited before reading its input; reported via 'close'/'error'
+          });
+          currentProcess.stdin?.end(input);
+        }
 
         // Set timeout for THIS specific process with proper cleanup
         this.currentProcessTimeout = setTimeout(() => {
@@ -67,55 +258,113 @@ export class VoiceFeedback {
         }, 30000);
 
         currentProcess.on('close', (code) => {
-          // Only handle if this is still the current process
+          // Stopped or timed out processes were cleaned up already; the queue moves on either way
           if (this.currentSpeechProcess === currentProcess) {
             this.cleanupCurrentProcess();
             
             if (code === 0 || code === null) {
               this.logger.debug('Speech completed successfully');
-              resolve();
             } else {
               this.logger.error(`Speech process exited with code ${code}`);
-              reject(new Error(`Speech failed with exit code ${code}`));
             }
           }
+          resolve();
         });
 
         currentProcess.on('error', (error) => {
           // Only handle if this is still the current process
           if (this.currentSpeechProcess === currentProcess) {
             this.cleanupCurrentProcess();
-            this.logger.error('Speech process error:', error);
-            reject(error);
+            onError(error);
           }
+          resolve();
         });
-      }).catch(reject);
+      }).catch((error) => {
+        this.isSpeaking = false;
+        this.logger.error('Failed to start speech process:', error);
+        resolve();
+      });
     });
   }
 
-  async announceTemperatures(targetTemp: number, roomTemp: number): Promise<void> {
-    const roundedRoomTemp = Math.round(roomTemp);
-    if (targetTemp === roundedRoomTemp) {
-      await this.speak(`${roundedRoomTemp} degrees`);
-      return;
+  // Room temperature is in Celsius; both temperatures are spoken in displayUnit
+  async announceStatus(
+    state: ACState,
+    roomTemp: number,
+    displayUnit: TemperatureUnit,
+    deviceName?: string,
+    notes: string[] = []
+  ): Promise<void> {
+    const room = Math.round(convertTemperature(roomTemp, 'C', displayUnit));
+    const target = Math.round(convertTemperature(state.targetTemperature, state.temperatureUnit, displayUnit));
+    const { mode, fanLevel } = state;
+
+    let message: string;
+    if (!state.on) {
+      message = this.messages.format('status.off', { room });
+    } else if (target === room) {
+      message = this.messages.format('status.atTarget', { temperature: this.messages.degrees(room, displayUnit), mode, fanLevel });
+    } else {
+      message = this.messages.format('status.on', { target, room, mode, fanLevel });
     }
-    
-    const message = `Target ${targetTemp}. Room ${roundedRoomTemp}.`;
-    await this.speak(message);
+    await this.announce(this.withDevice(`${message}${notes.map(note => ` ${note}.`).join('')}`, deviceName), 'confirmation');
+  }
+
+  // e.g. "Room 26, falling 1 degree in the last 30 minutes, humidity 58 percent."
+  async announceTrend(
+    trend: Trend,
+    summary: HistorySummary | null,
+    displayUnit: TemperatureUnit,
+    deviceName?: string
+  ): Promise<void> {
+    const toDisplay = (celsius: number) => Math.round(convertTemperature(celsius, 'C', displayUnit));
+    const { minutes } = trend;
+    const parts = [this.messages.format('trend.room', { room: toDisplay(trend.roomTemperature) })];
+
+    if (trend.change !== null) {
+      const change = Math.round(trend.change * (displayUnit === 'F' ? 9 / 5 : 1) * 10) / 10;
+      const amount = Math.abs(change);
+      if (amount < STEADY_THRESHOLD) {
+        parts.push(this.messages.format('trend.steady', { minutes }));
+      } else if (change > 0) {
+        parts.push(this.messages.format(amount === 1 ? 'trend.risingOne' : 'trend.rising', { change: amount, minutes }));
+      } else {
+        parts.push(this.messages.format(amount === 1 ? 'trend.fallingOne' : 'trend.falling', { change: amount, minutes }));
+      }
+    }
+    parts.push(this.messages.format('trend.humidity', { humidity: Math.round(trend.humidity) }));
+
+    let message = `${parts.join(', ')}.`;
+    if (summary) {
+      const { min, max, avg } = summary.temperature;
+      message += ` ${this.messages.format('trend.summary', { min: toDisplay(min), max: toDisplay(max), avg: toDisplay(avg) })}`;
+    }
+    await this.announce(this.withDevice(message, deviceName), 'confirmation');
   }
 
   async announceACState(isOn: boolean, targetTemp: number): Promise<void> {
-    const state = isOn ? 'on' : 'off';
-    const message = `AC is ${state}. Target temperature: ${targetTemp}.`;
-    await this.speak(message);
+    await this.announce(this.messages.format(isOn ? 'status.acOn' : 'status.acOff', { target: targetTemp }), 'confirmation');
   }
 
-  async announceError(error: string): Promise<void> {
-    await this.speak(`Error: ${error}`);
+  // A message, or the error of a failed operation as an actionable message
+  async announceError(error: unknown, operationName: string = this.messages.format('operation.request')): Promise<void> {
+    const message = typeof error === 'string' ? error : this.messages.text(describeError(error, operationName));
+    await this.announce(this.messages.format('error', { message }), 'error');
   }
 
+  // The result of a command
   async announceSuccess(message: string): Promise<void> {
-    await this.speak(message);
+    await this.announce(message, 'confirmation');
+  }
+
+  // News nobody asked for, e.g. a change made with the Sensibo app
+  async announceNotification(message: string): Promise<void> {
+    await this.announce(message, 'notification');
+  }
+
+  // "Bedroom. ..." when the announcement is about a named device
+  private withDevice(message: string, deviceName?: string): string {
+    return deviceName ? this.messages.format('devicePrefix', { device: deviceName, message }) : message;
   }
 
   setVolume(volume: number): void {
@@ -130,7 +379,9 @@ export class VoiceFeedback {
     this.logger.info(`Voice rate set to ${this.rate}`);
   }
 
+  // Stops speaking; announcements still waiting are not spoken
   stop(): void {
+    this.pending.splice(0).forEach(announcement => announcement.done.forEach(resolve => resolve()));
     if (this.isSpeaking && this.currentSpeechProcess) {
       this.logger.debug('Stopping current speech');
       const processToKill = this.currentSpeechProcess;